@@ -1,37 +1,276 @@
-import { defineConfig } from 'vitepress'
+import { defineConfig, type DefaultTheme, type SiteConfig } from 'vitepress'
+import { fileURLToPath, URL } from 'node:url'
+import { createRequire } from 'node:module'
 import { groupIconMdPlugin, groupIconVitePlugin, localIconLoader } from 'vitepress-plugin-group-icons'
 import markdownItTaskCheckbox from 'markdown-it-task-checkbox'
-import { MermaidMarkdown, MermaidPlugin } from 'vitepress-plugin-mermaid';
+import { transformerTwoslash } from '@shikijs/vitepress-twoslash'
+
+import { getPageReadingStats, injectPostData, usePosts, useSidebar } from './theme/utils/permalink';
+import { checkFrontmatter, reportFrontmatterIssues, reportUnpublished } from './theme/utils/frontmatter';
+import { generateFeeds, getFeedHead } from './theme/utils/feed';
+import { localSearch } from './theme/utils/search';
+import { generateOgImages, getOgHead } from './theme/utils/og';
+import { checkLinks } from './theme/utils/links';
+import { admonitionPlugin } from './theme/utils/admonition';
+import { mathPlugin } from './theme/utils/math';
+import { quizPlugin } from './theme/utils/quiz';
+import { createCachedTwoslasher } from './theme/utils/twoslash';
+import { preferencesScript } from './theme/utils/preferences';
+import { generatePwa, getPwaHead } from './theme/utils/pwa';
+import { generateBooks } from './theme/utils/book';
+import { localizeLink, localizeSidebar, readTranslations, reportTranslations } from './theme/utils/translations';
+
+// 站点域名，用于订阅源等需要绝对地址的场景
+const hostname = 'https://jensen-blog.vercel.app'
+// 封面图使用的中文字体，随依赖安装，不依赖构建环境的系统字体
+const require = createRequire(import.meta.url)
+const ogFontFiles = ['400Regular/NotoSansSC_400Regular.ttf', '700Bold/NotoSansSC_700Bold.ttf']
+  .map((file) => require.resolve(`@expo-google-fonts/noto-sans-sc/${file}`))
+// 校验frontmatter，生产构建中存在错误时中断；草稿和未到发布时间的文章不参与生产构建
+const { unpublished, issues: frontmatterIssues } = await checkFrontmatter();
+// 只在内存中计算permalink和上下页，不修改源文件
+const { rewrites, posts } = await usePosts();
+// 侧边栏根据目录结构和frontmatter生成，需要手写的目录通过manual传入
+const { sidebar } = await useSidebar({ rewrites });
+// 英文翻译位于 docs/en/ 下，与原文路径一致；未翻译的文章在英文侧边栏中指向中文原文
+const translations = await readTranslations({ locale: 'en', rewrites });
+
+// 英文侧边栏的分组名称
+const sidebarGroupsEn: Record<string, string> = {
+  'JavaScript 基础': 'JavaScript Basics',
+  'JavaScript 核心': 'JavaScript Core',
+  'React 基础': 'React Basics',
+  'React 源码与原理': 'React Internals',
+  'TypeScript 专题': 'TypeScript Topics',
+  'Vue 新特性': 'New in Vue',
+  'Vue 核心实践': 'Vue in Practice',
+  'Vue 源码原理': 'Vue Internals',
+  'Web 开发': 'Web Development',
+  '基础与架构': 'Fundamentals & Architecture',
+  '基础入门': 'Getting Started',
+  '开发规范': 'Conventions',
+  '性能与优化': 'Performance',
+  '性能与运维': 'Performance & Operations',
+  '构建与优化': 'Build & Optimization',
+  '架构设计': 'Architecture',
+  '核心原理': 'Core Concepts',
+  '质量保障': 'Quality Assurance',
+  '进阶特性': 'Advanced Features',
+}
+
+// 英文导航，未翻译的页面指向中文原文
+const enNav: DefaultTheme.NavItem[] = [
+  { text: 'Home', link: '/en/' },
+  {
+    text: 'Notes', items: [
+      {
+        text: 'Front End', items: [
+          { text: 'JavaScript', link: localizeLink('/javascript/', translations) },
+          { text: 'TypeScript', link: localizeLink('/typescript/', translations) },
+          { text: 'React', link: localizeLink('/react/', translations) },
+          { text: 'Vue', link: localizeLink('/vue/', translations) },
+          { text: 'Engineering', link: localizeLink('/engineering/', translations) },
+        ]
+      },
+      {
+        text: 'Back End', items: [
+          { text: 'Node', link: localizeLink('/node/', translations) },
+        ]
+      },
+    ]
+  },
+  { text: 'Archive', link: localizeLink('/archive', translations) },
+  { text: 'Tags', link: '/tags/' },
+  { text: 'Resources', link: localizeLink('/nav', translations) },
+  { text: 'Translations', link: '/en/translations' },
+]
+
+// Algolia DocSearch 配置
+const algoliaSearch: DefaultTheme.Config['search'] = {
+  provider: 'algolia',
+  options: {
+    appId: 'O3WJPPQMIY',
+    apiKey: '5faa14e6bf1463835ceb9c9d06bb89a2',
+    indexName: 'docs',
+    locales: {
+      en: {
+        placeholder: 'Search docs',
+      },
+      root: {
+        placeholder: '搜索文档',
+        translations: {
+          button: {
+            buttonText: '搜索文档',
+            buttonAriaLabel: '搜索文档'
+          },
+          modal: {
+            searchBox: {
+              resetButtonTitle: '清除查询条件',
+              resetButtonAriaLabel: '清除查询条件',
+              cancelButtonText: '取消',
+              cancelButtonAriaLabel: '取消'
+            },
+            startScreen: {
+              recentSearchesTitle: '搜索历史',
+              noRecentSearchesText: '没有搜索历史',
+              saveRecentSearchButtonTitle: '保存至搜索历史',
+              removeRecentSearchButtonTitle: '从搜索历史中移除',
+              favoriteSearchesTitle: '收藏',
+              removeFavoriteSearchButtonTitle: '从收藏中移除'
+            },
+            errorScreen: {
+              titleText: '无法获取结果',
+              helpText: '你可能需要检查你的网络连接'
+            },
+            footer: {
+              selectText: '选择',
+              navigateText: '切换',
+              closeText: '关闭',
+              searchByText: '搜索提供者'
+            },
+            noResultsScreen: {
+              noResultsText: '无法找到相关结果',
+              suggestedQueryText: '你可以尝试查询',
+              reportMissingResultsText: '你认为该查询应该有结果？',
+              reportMissingResultsLinkText: '点击反馈'
+            },
+          },
+        },
+      },
+    },
+  },
+}
 
-import { usePosts } from './theme/utils/permalink';
-const { rewrites } = await usePosts();
 // https://vitepress.dev/reference/site-config
 export default defineConfig({
   title: "Jensen's Blog",
   description: "📝在线笔记本",
   rewrites,
+  // 排除后不会生成页面，也不会进入本地搜索索引
+  srcExclude: unpublished,
+  // 中文为默认语言，英文位于 /en/ 下
+  locales: {
+    root: {
+      label: '简体中文',
+      lang: 'zh-CN',
+    },
+    en: {
+      label: 'English',
+      lang: 'en-US',
+      link: '/en/',
+      description: '📝 Online notebook',
+      themeConfig: {
+        nav: enNav,
+        sidebar: localizeSidebar(sidebar, translations, { groups: sidebarGroupsEn }),
+        editLink: {
+          pattern: 'https://github.com/Jensen0925/Jensen-blog/fork',
+          text: 'Suggest changes to this page'
+        },
+        lastUpdated: {
+          text: 'Last updated',
+          formatOptions: {
+            dateStyle: 'short',
+            timeStyle: 'medium'
+          },
+        },
+        docFooter: {
+          prev: 'Previous page',
+          next: 'Next page',
+        },
+        outline: { label: 'On this page' },
+        returnToTopLabel: 'Return to top',
+        sidebarMenuLabel: 'Menu',
+        darkModeSwitchLabel: 'Appearance',
+        lightModeSwitchTitle: 'Switch to light theme',
+        darkModeSwitchTitle: 'Switch to dark theme',
+        langMenuLabel: 'Change language',
+        notFound: {
+          title: 'PAGE NOT FOUND',
+          quote: 'But if you don\'t change your direction, and if you keep looking, you may end up where you are heading.',
+          linkLabel: 'go to home',
+          linkText: 'Take me home',
+        },
+      },
+    },
+  },
+  // 内置死链检查不支持锚点和行号，改由 buildEnd 中的 checkLinks 检查
   ignoreDeadLinks: true,
+  // 注入usePosts计算的permalink和上下页
+  async transformPageData(pageData, { siteConfig }) {
+    injectPostData(pageData, posts)
+    // 标签页标题
+    if (pageData.params?.tag) {
+      pageData.title = `标签：${pageData.params.tag}`
+    }
+    // 复习页标题
+    if (pageData.params?.section) {
+      pageData.title = `复习：${pageData.params.name}`
+    }
+    // 构建时统计字数和阅读时间，供ArticleMetadata直接渲染
+    return {
+      readingStats: await getPageReadingStats(pageData, siteConfig.srcDir),
+    }
+  },
   // 新增：基础 head 元信息（最小变更，不影响现有功能）
   head: [
     ['meta', { name: 'author', content: 'Jensen' }],
     ['meta', { name: 'keywords', content: 'JavaScript, React, Vue, Node, 工程化, 前端, 博客, 笔记' }],
     ['meta', { name: 'theme-color', content: '#646cff' }],
     ['meta', { name: 'twitter:card', content: 'summary_large_image' }],
+    // 首次绘制前应用阅读设置中的排版，避免页面闪烁
+    ['script', {}, preferencesScript],
+    // 离线阅读：manifest和图标在buildEnd中生成
+    ...getPwaHead(),
   ],
   // 根据页面信息动态注入 OG 元信息（放宽类型约束以兼容 VitePress 运行时）
-  transformHead: (ctx: any) => {
-    const page = ctx?.page;
+  transformHead: async (ctx: any) => {
+    const page = ctx?.pageData;
     const siteTitle = "Jensen's Blog";
     const pageTitle = page?.title ? `${page.title} | ${siteTitle}` : siteTitle;
     const pageDescription = page?.description || '📝在线笔记本';
-    const ogImage = '/Vlog_b.gif';
     return [
       ['meta', { property: 'og:title', content: pageTitle }],
       ['meta', { property: 'og:description', content: pageDescription }],
-      ['meta', { property: 'og:type', content: 'website' }],
-      ['meta', { property: 'og:image', content: ogImage }],
+      ['meta', { property: 'og:type', content: page?.frontmatter.layout === 'home' ? 'website' : 'article' }],
+      // 构建时生成的封面图，frontmatter.cover 可覆盖
+      ...getOgHead(ctx, { hostname, siteTitle, siteDescription: pageDescription }),
+      // 订阅源自动发现
+      ...getFeedHead(ctx.pageData.filePath, siteTitle, ctx.siteConfig.site.base),
     ]
   },
+  // 构建结束后检查链接，生成封面图、RSS / Atom / JSON Feed 和离线阅读所需的Service Worker
+  buildEnd: async (siteConfig) => {
+    // LINK_CHECK=error 时存在失效链接会使构建失败，LINK_CHECK_EXTERNAL=1 时检查外部链接
+    await checkLinks(siteConfig, {
+      mode: process.env.LINK_CHECK === 'error' ? 'error' : 'warn',
+      external: !!process.env.LINK_CHECK_EXTERNAL,
+      allowlist: ['https://github.com/Jensen0925', hostname],
+    })
+    // I18N_REPORT=1 时逐条列出未翻译的页面
+    reportTranslations(translations, siteConfig.logger, !!process.env.I18N_REPORT)
+    reportFrontmatterIssues(frontmatterIssues, siteConfig.logger)
+    reportUnpublished(unpublished, siteConfig.logger)
+    await generateOgImages(siteConfig, { fontFiles: ogFontFiles, fontFamily: 'Noto Sans SC' })
+    await generateFeeds(siteConfig, {
+      hostname,
+      title: "Jensen's Blog",
+      description: '📝在线笔记本',
+      author: 'Jensen',
+      limit: 20,
+    })
+    await generatePwa(siteConfig, {
+      name: "Jensen's Blog",
+      shortName: 'Jensen',
+      description: '📝在线笔记本',
+      themeColor: '#646cff',
+      // 评论脚本等第三方资源
+      cdnHosts: ['cdn.jsdelivr.net'],
+    })
+    // pnpm docs:book "React 源码与原理" 将侧边栏分组导出为电子书，多个分组用逗号分隔
+    if (process.env.BOOK) {
+      await generateBooks(siteConfig, { hostname, author: 'Jensen', sections: process.env.BOOK.split(',') })
+    }
+  },
   //markdown配置
   markdown: {
     //行号显示
@@ -45,7 +284,10 @@ export default defineConfig({
         postprocess(code) {
           return code.replace(/\[\!\!code/g, '[!code')
         }
-      }
+      },
+      // ```ts twoslash 代码块在构建时经过TypeScript类型检查，显示类型提示、^? 查询和 @errors 声明的错误
+      // 结果缓存在 .vitepress/cache/twoslash，出现未声明的类型错误时构建失败
+      transformerTwoslash({ twoslasher: createCachedTwoslasher() }),
     ],
 
     // 开启图片懒加载
@@ -62,28 +304,6 @@ export default defineConfig({
       },
         // 代码组中添加图片
         md.use((md) => {
-          const defaultRender = md.render
-          md.render = (...args) => {
-            const [content, env] = args
-            const currentLang = env?.localeIndex || 'root'
-            const isHomePage = env?.path === '/' || env?.relativePath === 'index.md'  // 判断是否是首页
-
-            if (isHomePage) {
-              return defaultRender.apply(md, args) // 如果是首页，直接渲染内容
-            }
-            // 调用原始渲染
-            let defaultContent = defaultRender.apply(md, args)
-            // 替换内容
-            if (currentLang === 'root') {
-              defaultContent = defaultContent.replace(/NOTE/g, '提醒')
-                .replace(/TIP/g, '建议')
-                .replace(/IMPORTANT/g, '重要')
-                .replace(/WARNING/g, '警告')
-                .replace(/CAUTION/g, '注意')
-            }
-            // 返回渲染的内容
-            return defaultContent
-          }
           // 获取原始的 fence 渲染规则
           const defaultFence = md.renderer.rules.fence?.bind(md.renderer.rules) ?? ((...args) => args[0][args[1]].content);
 
@@ -96,14 +316,28 @@ export default defineConfig({
               // 只渲染图片，不再渲染为代码块
               return `<div class="rendered-md">${md.render(token.content)}</div>`;
             }
+            // 可运行的代码块，如 ```js run，代码高亮后交给 RunnableCode 组件
+            const runnable = info.match(/^(js|javascript|ts|typescript)\s+run\b/);
+            if (runnable) {
+              token.info = info.replace(/\s+run\b/, '');
+              const lang = runnable[1].startsWith('t') ? 'ts' : 'js';
+              const code = md.utils.escapeHtml(encodeURIComponent(token.content));
+              return `<RunnableCode lang="${lang}" code="${code}">${defaultFence(tokens, idx, options, env, self)}</RunnableCode>`;
+            }
+            // Mermaid图表，由 MermaidDiagram 组件在客户端渲染
+            if (info === 'mermaid') {
+              return `<MermaidDiagram code="${md.utils.escapeHtml(encodeURIComponent(token.content))}" />`;
+            }
             // 其他代码块按默认规则渲染（如 java, js 等）
             return defaultFence(tokens, idx, options, env, self);
           };
         })
 
+      md.use(admonitionPlugin) //提示块标题本地化及自定义容器
+      md.use(mathPlugin) //数学公式，构建时用KaTeX渲染
+      md.use(quizPlugin) //测验和闪卡
       md.use(groupIconMdPlugin) //代码组图标
       md.use(markdownItTaskCheckbox) //todo
-      md.use(MermaidMarkdown);
     }
 
   },
@@ -117,14 +351,24 @@ export default defineConfig({
           js: 'logos:javascript', //js图标
         },
       }),
-      [MermaidPlugin()]
+      // 开发环境不执行buildEnd，启动开发服务器时输出frontmatter中的问题
+      {
+        name: 'frontmatter-report',
+        configureServer: (server: { config: { logger: SiteConfig['logger'] } }) => reportFrontmatterIssues(frontmatterIssues, server.config.logger),
+      },
     ] as any,
+    resolve: {
+      alias: [
+        // 本地搜索使用自定义弹窗，增加按专题筛选
+        {
+          find: /^.*\/VPLocalSearchBox\.vue$/,
+          replacement: fileURLToPath(new URL('./theme/components/LocalSearchBox.vue', import.meta.url))
+        },
+      ],
+    },
     optimizeDeps: {
       include: ['mermaid'],
     },
-    ssr: {
-      noExternal: ['mermaid'],
-    },
   },
   lastUpdated: true,
   themeConfig: {
@@ -149,258 +393,14 @@ export default defineConfig({
           },
         ]
       },
+      { text: '归档', link: '/archive' },
+      { text: '标签', link: '/tags/' },
+      { text: '资源导航', link: '/nav' },
     ],
-    search: {
-      provider: 'algolia',
-      options: {
-        appId: 'O3WJPPQMIY',
-        apiKey: '5faa14e6bf1463835ceb9c9d06bb89a2',
-        indexName: 'docs',
-        locales: {
-          root: {
-            placeholder: '搜索文档',
-            translations: {
-              button: {
-                buttonText: '搜索文档',
-                buttonAriaLabel: '搜索文档'
-              },
-              modal: {
-                searchBox: {
-                  resetButtonTitle: '清除查询条件',
-                  resetButtonAriaLabel: '清除查询条件',
-                  cancelButtonText: '取消',
-                  cancelButtonAriaLabel: '取消'
-                },
-                startScreen: {
-                  recentSearchesTitle: '搜索历史',
-                  noRecentSearchesText: '没有搜索历史',
-                  saveRecentSearchButtonTitle: '保存至搜索历史',
-                  removeRecentSearchButtonTitle: '从搜索历史中移除',
-                  favoriteSearchesTitle: '收藏',
-                  removeFavoriteSearchButtonTitle: '从收藏中移除'
-                },
-                errorScreen: {
-                  titleText: '无法获取结果',
-                  helpText: '你可能需要检查你的网络连接'
-                },
-                footer: {
-                  selectText: '选择',
-                  navigateText: '切换',
-                  closeText: '关闭',
-                  searchByText: '搜索提供者'
-                },
-                noResultsScreen: {
-                  noResultsText: '无法找到相关结果',
-                  suggestedQueryText: '你可以尝试查询',
-                  reportMissingResultsText: '你认为该查询应该有结果？',
-                  reportMissingResultsLinkText: '点击反馈'
-                },
-              },
-            },
-          },
-        },
-      },
-    },
+    // 默认使用 Algolia，设置 SEARCH_PROVIDER=local 时使用本地离线搜索
+    search: process.env.SEARCH_PROVIDER === 'local' ? localSearch : algoliaSearch,
 
-    sidebar: {
-      '/javascript/': [
-        {
-          text: 'JavaScript 基础',
-          collapsed: false,
-          items: [
-            { text: 'JavaScript 基础', link: '/javascript/basics' },
-            { text: 'ES6+ 特性', link: '/javascript/es6' }
-          ]
-        },
-        {
-          text: 'JavaScript 核心',
-          collapsed: false,
-          items: [
-            { text: '异步编程', link: '/javascript/async-programming' },
-            { text: '原型与继承', link: '/javascript/prototype' },
-            { text: '进阶概念', link: '/javascript/advanced' }
-          ]
-        }
-      ],
-      '/react/': [
-        {
-          text: 'React 基础',
-          collapsed: false,
-          items: [
-            { text: '入门指南', link: '/react/getting-started' },
-            { text: '组件开发', link: '/react/components' },
-            { text: 'Hooks使用', link: '/react/hooks' },
-            { text: 'React 18 新特性', link: '/react/react-18' },
-            { text: 'React 19 新特性', link: '/react/react-19' }
-          ]
-        },
-        {
-          text: 'React 源码与原理',
-          collapsed: false,
-          items: [
-            { text: 'Fiber 原理', link: '/react/fiber' },
-            { text: 'Diff 算法', link: '/react/diff-algorithm' },
-            { text: 'Reconciler 协调器', link: '/react/reconciler' },
-            { text: 'Scheduler 调度器', link: '/react/scheduler' },
-            { text: '状态管理原理', link: '/react/state-management' },
-            { text: '事件系统原理', link: '/react/events' }
-          ]
-        },
-        {
-          text: '性能与优化',
-          collapsed: false,
-          items: [
-            { text: '性能优化完全指南', link: '/react/performance' }
-          ]
-        },
-        {
-          text: '进阶特性',
-          collapsed: false,
-          items: [
-            { text: 'Context 深入解析', link: '/react/context' },
-            { text: 'React 设计模式', link: '/react/patterns' },
-            { text: 'Suspense 和异步渲染', link: '/react/suspense' },
-            { text: '自定义 Hooks 最佳实践', link: '/react/custom-hooks' },
-            { text: '错误处理与边界', link: '/react/error-boundaries' },
-            { text: '服务端渲染（SSR）', link: '/react/ssr' }
-          ]
-        }
-      ],
-      '/vue/': [
-        {
-          text: 'Vue 核心实践',
-          collapsed: false,
-          items: [
-            { text: '学习指南', link: '/vue/' },
-            { text: 'Composition API 最佳实践', link: '/vue/composition-best-practices' }
-          ]
-        },
-        {
-          text: 'Vue 源码原理',
-          collapsed: false,
-          items: [
-            { text: 'Vue 3 响应式系统', link: '/vue/reactivity-system' },
-            { text: 'ref 底层原理', link: '/vue/ref-internals' },
-            { text: 'Vue 2 vs Vue 3 响应式', link: '/vue/reactivity-comparison' },
-            { text: 'Diff 算法原理', link: '/vue/diff-algorithm' },
-            { text: 'Vue 3 编译器', link: '/vue/compiler' }
-          ]
-        },
-        {
-          text: 'Vue 新特性',
-          collapsed: false,
-          items: [
-            { text: 'Vue 3.6 新特性', link: '/vue/vue-3-6' },
-            { text: 'Vue Vine', link: '/vue/vue-vine' }
-          ]
-        }
-      ],
-      '/engineering/': [
-        {
-          text: '基础与架构',
-          collapsed: false,
-          items: [
-            { text: '基础知识', link: '/engineering/basics' },
-            { text: 'Monorepo 架构', link: '/engineering/monorepo' }
-          ]
-        },
-        {
-          text: '开发规范',
-          collapsed: false,
-          items: [
-            { text: 'Git 工作流与代码规范', link: '/engineering/git-workflow' }
-          ]
-        },
-        {
-          text: '构建与优化',
-          collapsed: false,
-          items: [
-            { text: '构建工具', link: '/engineering/build-tools' },
-            { text: '插件机制', link: '/engineering/plugins' },
-            { text: '性能优化', link: '/engineering/performance' }
-          ]
-        },
-        {
-          text: '质量保障',
-          collapsed: false,
-          items: [
-            { text: 'ESLint 工程实践', link: '/engineering/eslint' },
-            { text: '测试与部署', link: '/engineering/testing-and-deployment' }
-          ]
-        }
-      ],
-      '/typescript/': [
-        {
-          text: 'TypeScript',
-          collapsed: false,
-          items: [
-            { text: '学习指南', link: '/typescript/' },
-            { text: '安装与配置', link: '/typescript/setup' },
-            { text: '基础类型', link: '/typescript/basic-types' },
-            { text: '接口', link: '/typescript/interface' },
-            { text: '高级类型', link: '/typescript/advanced-types' },
-            { text: '泛型', link: '/typescript/generic' },
-            { text: '类型守护', link: '/typescript/type-guards' },
-            { text: '类型操控与校验', link: '/typescript/type-manipulation' },
-            { text: '装饰器', link: '/typescript/decorators' },
-          ]
-        }
-      ],
-      '/node/': [
-        {
-          text: '基础入门',
-          collapsed: false,
-          items: [
-            { text: '学习指南', link: '/node/' },
-            { text: 'Node.js 基础', link: '/node/basics' },
-            { text: '核心模块', link: '/node/core-modules' },
-            { text: '包管理', link: '/node/package-management' },
-            { text: '异步编程', link: '/node/async-programming' }
-          ]
-        },
-        {
-          text: '核心原理',
-          collapsed: false,
-          items: [
-            { text: '事件循环', link: '/node/event-loop' },
-            { text: 'Stream 流', link: '/node/stream' },
-            { text: 'Buffer 和二进制', link: '/node/buffer' },
-            { text: 'Process 和线程', link: '/node/process' }
-          ]
-        },
-        {
-          text: 'Web 开发',
-          collapsed: false,
-          items: [
-            { text: 'Express 框架', link: '/node/express' },
-            { text: 'NestJS 框架', link: '/node/nestjs' },
-            { text: '数据库操作', link: '/node/database' },
-            { text: 'WebSocket', link: '/node/websocket' },
-            { text: 'GraphQL', link: '/node/graphql' }
-          ]
-        },
-        {
-          text: '架构设计',
-          collapsed: false,
-          items: [
-            { text: '微服务架构', link: '/node/microservices' },
-            { text: '错误处理', link: '/node/error-handling' },
-            { text: '安全最佳实践', link: '/node/security' }
-          ]
-        },
-        {
-          text: '性能与运维',
-          collapsed: false,
-          items: [
-            { text: '性能优化', link: '/node/performance' },
-            { text: '测试', link: '/node/testing' },
-            { text: '监控与日志', link: '/node/monitoring' },
-            { text: '部署', link: '/node/deployment' },
-            { text: '故障排查', link: '/node/troubleshooting' }
-          ]
-        }
-      ],
-    },
+    sidebar,
 
     socialLinks: [
       { icon: 'github', link: 'https://github.com/Jensen0925' },
@@ -436,5 +436,19 @@ export default defineConfig({
       prev: '上一页',
       next: '下一页',
     },
+    // 主题界面文案，英文见 locales.en
+    outline: { label: '页面导航' },
+    returnToTopLabel: '回到顶部',
+    sidebarMenuLabel: '菜单',
+    darkModeSwitchLabel: '主题',
+    lightModeSwitchTitle: '切换到浅色模式',
+    darkModeSwitchTitle: '切换到深色模式',
+    langMenuLabel: '多语言',
+    notFound: {
+      title: '页面未找到',
+      quote: '但如果你不改变方向，并且继续寻找，你可能最终会到达你所前往的地方。',
+      linkLabel: '前往首页',
+      linkText: '带我回首页',
+    },
   }
 })
@@ -0,0 +1,50 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import matter from 'gray-matter'
+import { createMarkdownRenderer, defineLoader, type SiteConfig } from 'vitepress'
+import { readPosts, usePosts } from '../utils/permalink'
+import type { CardSource } from '../utils/quiz'
+
+/** 复习页面中的一张闪卡 */
+export interface ReviewCard extends CardSource {
+  /** 所在文章的标题 */
+  title: string
+  /** 闪卡在文章中的位置 */
+  link: string
+}
+
+/** 各专题的闪卡，键为专题目录，如 react */
+export type CardsData = Record<string, ReviewCard[]>
+
+declare const data: CardsData
+export { data }
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('../../..', import.meta.url)))
+
+export default defineLoader({
+  // 相对于当前文件，即docs目录下的所有文章
+  watch: ['../../../**/*.md'],
+  async load(): Promise<CardsData> {
+    // 闪卡答案需要与文章使用相同的markdown配置渲染，loader中只能通过VitePress设置的全局配置获取
+    const { markdown, site, logger } = (globalThis as typeof globalThis & { VITEPRESS_CONFIG: SiteConfig }).VITEPRESS_CONFIG
+    const md = await createMarkdownRenderer(srcDir, markdown, site.base, logger)
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+
+    const result: CardsData = {}
+    for (const post of posts) {
+      const src = await fs.readFile(path.join(srcDir, post.relativePath), 'utf8')
+      // 只渲染包含闪卡的文章
+      if (!/^:{3,}\s*card\b/m.test(src)) continue
+      // quizPlugin在env.cards为数组时收集闪卡，见 utils/quiz.ts
+      const env = { relativePath: post.relativePath, cards: [] as CardSource[] }
+      md.render(matter(src).content, env)
+      const section = post.relativePath.split('/')[0]
+      result[section] ??= []
+      result[section].push(...env.cards.map((card) => ({ ...card, title: post.title, link: `${post.link}#card-${card.id}` })))
+    }
+    return result
+  }
+})
@@ -0,0 +1,41 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import matter from 'gray-matter'
+import { defineLoader } from 'vitepress'
+import { toTimestamp } from '../utils/frontmatter'
+import { getGitHistory } from '../utils/history'
+import { readPosts, usePosts } from '../utils/permalink'
+import type { ContentEntry } from '../utils/types'
+
+/** 按创建时间倒序排列的内容索引 */
+export type ContentData = ContentEntry[]
+
+declare const data: ContentData
+export { data }
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('../../..', import.meta.url)))
+
+export default defineLoader({
+  // 相对于当前文件，即docs目录下的所有文章
+  watch: ['../../../**/*.md'],
+  async load(): Promise<ContentData> {
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+    const entries = await Promise.all(posts.map(async (post): Promise<ContentEntry> => {
+      const file = path.join(srcDir, post.relativePath)
+      const { created, change } = await getGitHistory(file)
+      const { date } = matter.read(file).data
+      return {
+        title: post.title,
+        link: post.link,
+        section: post.relativePath.split('/')[0],
+        created: date ? toTimestamp(date) : created,
+        // 包含frontmatter中的updated
+        lastUpdated: post.lastUpdated,
+        change
+      }
+    }))
+    return entries.sort((a, b) => b.created - a.created)
+  }
+})
@@ -0,0 +1,30 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import matter from 'gray-matter'
+import { defineLoader } from 'vitepress'
+import { buildPostGraph, type PostGraphNode } from '../utils/graph'
+import { readPosts, usePosts } from '../utils/permalink'
+
+/** 以源文件路径（pageData.filePath）为键的文章关联信息 */
+export type GraphData = Record<string, PostGraphNode>
+
+declare const data: GraphData
+export { data }
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('../../..', import.meta.url)))
+
+export default defineLoader({
+  // 相对于当前文件，即docs目录下的所有文章
+  watch: ['../../../**/*.md'],
+  async load(): Promise<GraphData> {
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+    const inputs = await Promise.all(posts.map(async (post) => {
+      const src = await fs.readFile(path.join(srcDir, post.relativePath), 'utf8')
+      return { ...post, content: matter(src).content }
+    }))
+    return buildPostGraph(inputs)
+  }
+})
@@ -0,0 +1,16 @@
+import { defineLoader } from 'vitepress'
+import { checkNavData, resolveNavIcons } from '../utils/nav'
+import { navData } from './navLinks'
+import type { NavData } from '../utils/types'
+
+declare const data: NavData[]
+export { data }
+
+export default defineLoader({
+  // navLinks.ts 作为加载器的依赖，修改后自动重新加载
+  async load(): Promise<NavData[]> {
+    // 链接重复或缺少必填字段时，生产构建失败
+    checkNavData(navData)
+    return resolveNavIcons(navData)
+  }
+})
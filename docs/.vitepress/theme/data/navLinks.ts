@@ -0,0 +1,198 @@
+import type { NavData } from '../utils/types'
+
+/**
+ * 资源导航中的站点，按分组维护，页面见 docs/nav.md 和 docs/en/nav.md
+ * - icon: 远程图标在构建时下载到 public/nav-icons，不填时生成首字母头像
+ * - tags: 用于页面上的标签筛选
+ * 链接重复或缺少名称、链接时构建失败（见 utils/nav.ts）
+ */
+export const navData: NavData[] = [
+  {
+    title: '官方文档',
+    items: [
+      {
+        icon: 'https://cn.vuejs.org/logo.svg',
+        title: 'Vue.js',
+        desc: '渐进式 JavaScript 框架',
+        link: 'https://cn.vuejs.org',
+        badge: '中文',
+        tags: ['Vue', '框架'],
+      },
+      {
+        icon: 'https://pinia.vuejs.org/logo.svg',
+        title: 'Pinia',
+        desc: 'Vue 官方状态管理库',
+        link: 'https://pinia.vuejs.org/zh/',
+        tags: ['Vue'],
+      },
+      {
+        icon: 'https://react.dev/favicon.ico',
+        title: 'React',
+        desc: '用于构建 Web 和原生交互界面的库',
+        link: 'https://zh-hans.react.dev',
+        badge: '中文',
+        tags: ['React', '框架'],
+      },
+      {
+        icon: 'https://nextjs.org/favicon.ico',
+        title: 'Next.js',
+        desc: 'React 全栈框架，支持服务端渲染和静态生成',
+        link: 'https://nextjs.org',
+        tags: ['React', '框架'],
+      },
+      {
+        icon: 'https://www.typescriptlang.org/favicon-32x32.png',
+        title: 'TypeScript',
+        desc: '带类型的 JavaScript 超集',
+        link: 'https://www.typescriptlang.org/zh/',
+        tags: ['TypeScript'],
+      },
+      {
+        icon: 'https://developer.mozilla.org/favicon-48x48.png',
+        title: 'MDN Web Docs',
+        desc: 'Web 标准与 JavaScript 参考文档',
+        link: 'https://developer.mozilla.org/zh-CN/',
+        badge: { text: '推荐', type: 'tip' },
+        tags: ['JavaScript', 'CSS', '参考'],
+      },
+    ],
+  },
+  {
+    title: '构建与工程化',
+    items: [
+      {
+        icon: 'https://vitejs.dev/logo.svg',
+        title: 'Vite',
+        desc: '下一代前端构建工具',
+        link: 'https://cn.vitejs.dev',
+        tags: ['构建'],
+      },
+      {
+        icon: 'https://vitepress.dev/vitepress-logo-mini.svg',
+        title: 'VitePress',
+        desc: '本站使用的静态站点生成器',
+        link: 'https://vitepress.dev/zh/',
+        tags: ['Vue', '文档'],
+      },
+      {
+        title: 'Rollup',
+        desc: 'JavaScript 模块打包器，Vite 的生产构建基于它',
+        link: 'https://cn.rollupjs.org',
+        tags: ['构建'],
+      },
+      {
+        icon: 'https://pnpm.io/img/favicon.png',
+        title: 'pnpm',
+        desc: '快速、节省磁盘空间的包管理器',
+        link: 'https://pnpm.io/zh/',
+        tags: ['构建', '工具'],
+      },
+      {
+        icon: 'https://vitest.dev/logo.svg',
+        title: 'Vitest',
+        desc: '由 Vite 驱动的单元测试框架',
+        link: 'https://cn.vitest.dev',
+        tags: ['测试'],
+      },
+      {
+        title: 'Playwright',
+        desc: '跨浏览器的端到端测试',
+        link: 'https://playwright.dev',
+        tags: ['测试'],
+      },
+    ],
+  },
+  {
+    title: 'Node 后端',
+    items: [
+      {
+        title: 'Node.js',
+        desc: '基于 V8 的 JavaScript 运行时',
+        link: 'https://nodejs.org/zh-cn',
+        tags: ['Node'],
+      },
+      {
+        title: 'Express',
+        desc: '简洁灵活的 Node.js Web 框架',
+        link: 'https://expressjs.com',
+        tags: ['Node', '框架'],
+      },
+      {
+        title: 'NestJS',
+        desc: '渐进式 Node.js 服务端框架，基于 TypeScript',
+        link: 'https://docs.nestjs.com',
+        badge: { text: '进阶', type: 'warning' },
+        tags: ['Node', 'TypeScript', '框架'],
+      },
+    ],
+  },
+  {
+    title: '在线工具',
+    items: [
+      {
+        icon: 'https://caniuse.com/img/favicon-128.png',
+        title: 'Can I use',
+        desc: '查询浏览器对 Web 特性的支持情况',
+        link: 'https://caniuse.com',
+        tags: ['CSS', 'JavaScript', '工具'],
+      },
+      {
+        title: 'TypeScript Playground',
+        desc: '在线编写和调试 TypeScript，查看编译结果',
+        link: 'https://www.typescriptlang.org/play',
+        tags: ['TypeScript', '工具'],
+      },
+      {
+        icon: 'https://mermaid.js.org/favicon.svg',
+        title: 'Mermaid Live Editor',
+        desc: '在线编辑 Mermaid 图表并导出',
+        link: 'https://mermaid.live',
+        tags: ['工具', '文档'],
+      },
+      {
+        title: 'regex101',
+        desc: '正则表达式调试与解释',
+        link: 'https://regex101.com',
+        tags: ['JavaScript', '工具'],
+      },
+      {
+        title: 'Excalidraw',
+        desc: '手绘风格的在线白板，适合画架构图',
+        link: 'https://excalidraw.com',
+        tags: ['工具'],
+      },
+    ],
+  },
+  {
+    title: '学习资料',
+    items: [
+      {
+        title: '现代 JavaScript 教程',
+        desc: '从基础到高阶的 JavaScript 教程',
+        link: 'https://zh.javascript.info',
+        badge: '中文',
+        tags: ['JavaScript', '学习'],
+      },
+      {
+        title: 'React 技术揭秘',
+        desc: '从理念到源码解读 React 架构',
+        link: 'https://react.iamkasong.com',
+        tags: ['React', '源码', '学习'],
+      },
+      {
+        icon: '/svg/bilibili.svg',
+        title: '哔哩哔哩',
+        desc: '前端技术视频与公开课',
+        link: 'https://www.bilibili.com',
+        tags: ['学习', '视频'],
+      },
+      {
+        icon: '/svg/youtube.svg',
+        title: 'YouTube',
+        desc: '会议演讲与英文教程',
+        link: 'https://www.youtube.com',
+        tags: ['学习', '视频'],
+      },
+    ],
+  },
+]
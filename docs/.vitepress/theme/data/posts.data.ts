@@ -0,0 +1,64 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { defineLoader } from 'vitepress'
+import { readPosts, usePosts } from '../utils/permalink'
+import type { LearningPath, PostSummary } from '../utils/types'
+
+export interface PostsData {
+  /** 按日期倒序排列的文章 */
+  posts: PostSummary[]
+  /** 标签及对应的文章数 */
+  tags: Record<string, number>
+  /** 分类及对应的文章数 */
+  categories: Record<string, number>
+  /** 学习路线 */
+  series: LearningPath[]
+}
+
+declare const data: PostsData
+export { data }
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('../../..', import.meta.url)))
+
+// 统计每个标签/分类下的文章数
+function countBy(posts: PostSummary[], key: 'tags' | 'categories') {
+  const result: Record<string, number> = {}
+  for (const post of posts) {
+    for (const name of post[key]) {
+      result[name] = (result[name] || 0) + 1
+    }
+  }
+  return result
+}
+
+// 按frontmatter中的series分组，组内按order排序
+function groupSeries(posts: PostSummary[]) {
+  const result: Record<string, PostSummary[]> = {}
+  for (const post of posts) {
+    if (post.series) (result[post.series] ??= []).push(post)
+  }
+  return Object.entries(result).map(([name, items]): LearningPath => ({
+    name,
+    section: items[0].relativePath.split('/')[0],
+    posts: items
+      .sort((a, b) => (a.order ?? Infinity) - (b.order ?? Infinity))
+      .map(({ title, link }) => ({ title, link }))
+  }))
+}
+
+export default defineLoader({
+  // 相对于当前文件，即docs目录下的所有文章
+  watch: ['../../../**/*.md'],
+  async load(): Promise<PostsData> {
+    // 与config.mts使用相同的重写规则，保证链接一致
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+    return {
+      posts,
+      tags: countBy(posts, 'tags'),
+      categories: countBy(posts, 'categories'),
+      series: groupSeries(posts)
+    }
+  }
+})
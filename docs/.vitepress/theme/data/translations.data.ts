@@ -0,0 +1,20 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { defineLoader } from 'vitepress'
+import { usePosts } from '../utils/permalink'
+import { readTranslations, type TranslationStatus } from '../utils/translations'
+
+declare const data: TranslationStatus
+export { data }
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('../../..', import.meta.url)))
+
+export default defineLoader({
+  // 相对于当前文件，即docs目录下的中文页面及翻译
+  watch: ['../../../**/*.md'],
+  async load(): Promise<TranslationStatus> {
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    return readTranslations({ baseDir: srcDir, locale: 'en', rewrites })
+  }
+})
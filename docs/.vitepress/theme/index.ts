@@ -1,22 +1,27 @@
 import DefaultTheme from 'vitepress/theme'
-import { h, onMounted, watch, nextTick } from 'vue';
+import { h, onMounted, watch, nextTick, type Ref } from 'vue';
 import { useData, inBrowser, useRoute } from 'vitepress'
-// giscusTalk
-// import giscusTalk from 'vitepress-plugin-comment-with-giscus';
 // 进度条
 import { NProgress } from 'nprogress-v2/dist/index.js'
 // 样式
 import 'nprogress-v2/dist/index.css'
 import 'virtual:group-icons.css' //代码组样式
+import 'katex/dist/katex.min.css' //数学公式样式，字体随站点打包
+import '@shikijs/vitepress-twoslash/style.css' //twoslash类型提示样式
 import './style/index.css' //自定义样式
 
 
 // mediumZoom
 import mediumZoom from 'medium-zoom';
+// twoslash类型提示浮层
+import TwoslashFloatingVue from '@shikijs/vitepress-twoslash/client'
 
 
 // 组件
 import MNavLinks from './components/MNavLinks.vue' //导航
+import NavDirectory from './components/NavDirectory.vue' //资源导航
+import TagCloud from './components/TagCloud.vue' //标签云
+import TagPosts from './components/TagPosts.vue' //标签文章列表
 import HomeUnderline from "./components/HomeUnderline.vue" // 首页下划线
 import confetti from "./components/confetti.vue" // 五彩纸屑
 import update from "./components/update.vue" // 更新时间
@@ -29,7 +34,25 @@ import backtotop from "./components/backtotop.vue" //返回顶部
 // import notice from "./components/notice.vue" //公告
 import MouseClick from "./components/MouseClick.vue"
 import MouseFollower from "./components/MouseFollower.vue"
-import Twikoo from './components/Twikoo.vue'
+import Comments from './components/Comments.vue' //评论
+import DataPanel from './components/DataPanel.vue' //全站访问量
+import MostRead from './components/MostRead.vue' //最多阅读
+import RunnableCode from './components/RunnableCode.vue' //可运行的代码块
+import LearningPaths from './components/LearningPaths.vue' //学习路线
+import ContinueReading from './components/ContinueReading.vue' //继续阅读
+import Archive from './components/Archive.vue' //归档
+import RecentUpdates from './components/RecentUpdates.vue' //最近更新
+import TranslationStatus from './components/TranslationStatus.vue' //翻译进度
+import MermaidDiagram from './components/MermaidDiagram.vue' //Mermaid图表
+import QuizBlock from './components/QuizBlock.vue' //测验
+import FlashCard from './components/FlashCard.vue' //闪卡
+import ReviewDeck from './components/ReviewDeck.vue' //闪卡复习
+import { usePageViewTracker } from './utils/analytics'
+import { useReadingProgress } from './utils/progress'
+import { useTranslationFallback } from './utils/i18n'
+import { isEffectEnabled, useReaderPreferences } from './utils/preferences'
+import { registerServiceWorker } from './utils/offline'
+import type { PostFrontmatter } from './utils/types'
 
 
 // 彩虹背景动画样式
@@ -41,6 +64,9 @@ export default {
   enhanceApp({ app, router }) {
     // 注册全局组件
     app.component('MNavLinks', MNavLinks) //导航
+    app.component('NavDirectory', NavDirectory) //资源导航
+    app.component('TagCloud', TagCloud) //标签云
+    app.component('TagPosts', TagPosts) //标签文章列表
     app.component('HomeUnderline', HomeUnderline) // 首页下划线
     app.component('confetti', confetti) // 五彩纸屑
     app.component('update', update) // 更新
@@ -49,24 +75,37 @@ export default {
     app.component('Linkcard', Linkcard) //链接卡片
     app.component('fluidborder', fluidborder) //流体边框仅用于演示
 
-    app.component("Twikoo", Twikoo);//Twikoo评论
+    app.component('Comments', Comments) //评论，服务配置见 utils/comments.ts
+    app.component('DataPanel', DataPanel) //全站访问量
+    app.component('MostRead', MostRead) //最多阅读
+    app.component('RunnableCode', RunnableCode) //可运行的代码块
+    app.component('LearningPaths', LearningPaths) //学习路线
+    app.component('ContinueReading', ContinueReading) //继续阅读
+    app.component('Archive', Archive) //归档
+    app.component('RecentUpdates', RecentUpdates) //最近更新
+    app.component('TranslationStatus', TranslationStatus) //翻译进度
+    app.component('MermaidDiagram', MermaidDiagram) //Mermaid图表
+    app.component('QuizBlock', QuizBlock) //测验，见 utils/quiz.ts
+    app.component('FlashCard', FlashCard) //闪卡
+    app.component('ReviewDeck', ReviewDeck) //闪卡复习
+    app.use(TwoslashFloatingVue) //twoslash类型提示
 
     if (inBrowser) {
+      registerServiceWorker() //离线阅读
       NProgress.configure({ showSpinner: false })
       router.onBeforeRouteChange = () => {
-        NProgress.start() // 开始进度条
+        if (isEffectEnabled('progressBar')) NProgress.start() // 开始进度条
       }
       router.onAfterRouteChange = () => {
-        // busuanzi.fetch()
         NProgress.done() // 停止进度条
       }
     }
 
-    // 彩虹背景动画样式
+    // 彩虹背景动画样式，可在阅读设置中关闭
     if (typeof window !== 'undefined') {
       watch(
-        () => router.route.data.relativePath,
-        () => updateHomePageStyle(location.pathname === '/'),
+        () => [router.route.data.relativePath, isEffectEnabled('rainbow')],
+        () => updateHomePageStyle(location.pathname === '/' && isEffectEnabled('rainbow')),
         { immediate: true },
       )
     }
@@ -77,7 +116,7 @@ export default {
   Layout: () => {
     const props: Record<string, any> = {}
     // 获取 frontmatter
-    const { frontmatter } = useData()
+    const frontmatter = useData().frontmatter as Ref<PostFrontmatter>
 
     /* 添加自定义 class */
     if (frontmatter.value?.layoutClass) {
@@ -108,28 +147,17 @@ export default {
       () => nextTick(() => initZoom())
     );
 
-    // giscus
-    // const { frontmatter } = useData();
-
-    // giscus配置
-    // giscusTalk({
-    //   repo: 'Jensen0925/Jensen-blog',
-    //   repoId: 'R_kgDOPW-Lvw',
-    //   category: 'General', // 默认: `General`
-    //   categoryId: 'DIC_kwDOPW-Lv84CtscO',
-    //   mapping: 'pathname', // 默认: `pathname`
-    //   inputPosition: 'bottom', // 默认: `top`
-    //   lang: 'zh-CN', // 默认: `zh-CN`
-    //   lightTheme: 'light', // 默认: `light`
-    //   darkTheme: 'dark', // 默认: `transparent_dark`
-    //   loading: 'eager',
-    // },
-    //   {
-    //     frontmatter, route
-    //   },
-    //   true
-    // );
+    // 访问统计，服务配置见 utils/analytics.ts
+    usePageViewTracker();
 
+    // 阅读进度，保存在localStorage中
+    useReadingProgress();
+
+    // 英文翻译缺失时回退到中文原文
+    useTranslationFallback();
+
+    // 阅读设置：排版、代码换行和动画效果开关
+    useReaderPreferences();
   },
 
 }
@@ -0,0 +1,69 @@
+import container from 'markdown-it-container'
+import type MarkdownIt from 'markdown-it'
+
+/** 自定义容器类型，样式和图标见 style/custom-block.css */
+export const customContainers = ['interview', 'source-code', 'pitfall']
+
+/** 各语言下容器和GitHub风格提示的默认标题，键为 localeIndex */
+export const admonitionTitles: Record<string, Record<string, string>> = {
+  root: {
+    tip: '建议',
+    note: '提醒',
+    info: '信息',
+    important: '重要',
+    warning: '警告',
+    caution: '注意',
+    danger: '危险',
+    details: '详细信息',
+    interview: '面试题',
+    'source-code': '源码解读',
+    pitfall: '踩坑记录',
+  },
+  // 内置类型沿用VitePress的英文标题，只补充自定义容器
+  en: {
+    interview: 'INTERVIEW',
+    'source-code': 'SOURCE CODE',
+    pitfall: 'PITFALL',
+  },
+}
+
+/**
+ * 本地化提示块标题的markdown-it插件
+ * 1. 注册 ::: interview、::: source-code、::: pitfall 等自定义容器
+ * 2. ::: tip 等容器和 > [!NOTE] 等GitHub风格提示未指定标题时，替换为当前语言的标题
+ * 只修改标题所在的token，不影响正文和代码块中的同名文本
+ * @param {MarkdownIt} md - markdown-it实例
+ * @param {Record<string, Record<string, string>>} titles - 各语言的默认标题
+ */
+export const admonitionPlugin = (md: MarkdownIt, titles = admonitionTitles) => {
+  // 自定义容器与内置容器的结构保持一致，复用 .custom-block 的样式
+  for (const type of customContainers) {
+    md.use(container, type, {
+      render(tokens: any[], idx: number, _options: any, env: any) {
+        const token = tokens[idx]
+        if (token.nesting !== 1) return '</div>\n'
+        const info = token.info.trim().slice(type.length).trim()
+        const title = md.renderInline(info || type, { references: env.references })
+        return `<div class="${type} custom-block"${md.renderer.renderAttrs(token)}><p class="custom-block-title">${title}</p>\n`
+      }
+    })
+  }
+
+  // 在所有块级规则（包括GitHub风格提示）之后执行
+  md.core.ruler.push('localize-admonition-title', (state) => {
+    const localized = titles[state.env?.localeIndex ?? 'root']
+    if (!localized) return
+
+    for (const token of state.tokens) {
+      // ::: tip 的标题取自 info，未指定标题时补上默认标题
+      const match = token.type.match(/^container_(.+)_open$/)
+      if (match && localized[match[1]] && token.info.trim() === match[1]) {
+        token.info = `${match[1]} ${localized[match[1]]}`
+      }
+      // > [!NOTE] 未指定标题时，标题为大写的类型名
+      if (token.type === 'github_alert_open' && token.meta?.title === token.meta.type.toUpperCase()) {
+        token.meta.title = localized[token.meta.type] ?? token.meta.title
+      }
+    }
+  })
+}
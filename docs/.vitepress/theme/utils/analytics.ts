@@ -0,0 +1,153 @@
+import { useData, useRoute } from 'vitepress'
+import { onMounted, reactive, watch } from 'vue'
+import { commentConfig } from './comments'
+
+/** 阅读量最高的文章 */
+export interface TopPage {
+  path: string
+  title: string
+  views: number
+}
+
+/** 全站访问数据 */
+export interface SiteStats {
+  /** 总访问量 */
+  pv: number
+  /** 访客数，Twikoo不统计访客数 */
+  uv?: number
+}
+
+/** 访问统计服务适配器，不支持的功能不实现即可，对应的界面会隐藏 */
+export interface AnalyticsBackend {
+  /** 记录一次访问，返回该页面的访问量 */
+  track(page: { path: string; title: string; visitor: string }): Promise<number | undefined>
+  /** 访问量最高的页面 */
+  getTop?(limit: number): Promise<TopPage[]>
+  /** 全站访问量和访客数，没有数据时为undefined */
+  getSite?(): Promise<SiteStats | undefined>
+}
+
+/**
+ * 统计服务，scripts/analytics-server.mjs 的HTTP接口
+ * @param {string} endpoint - 服务地址
+ * @returns {AnalyticsBackend}
+ */
+export const serverBackend = (endpoint: string): AnalyticsBackend => {
+  const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${endpoint.replace(/\/$/, '')}${url}`, init)
+    if (!response.ok) throw new Error(`Analytics request failed: ${response.status}`)
+    return response.json()
+  }
+  return {
+    async track(page) {
+      const { views } = await request<{ views: number }>('/track', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(page),
+        keepalive: true
+      })
+      return views
+    },
+    async getTop(limit) {
+      return (await request<{ items: TopPage[] }>(`/top?limit=${limit}`)).items
+    },
+    getSite: () => request<SiteStats>('/site'),
+  }
+}
+
+/** Twikoo中记录全站访问量的计数器地址，不对应实际页面 */
+const TWIKOO_SITE_COUNTER = '/__site__'
+
+/**
+ * Twikoo的访问量接口（COUNTER_GET），每次调用会使访问量加一
+ * 全站访问量通过额外的计数器统计，每次访问页面时一起加一；Twikoo不支持排行和访客数
+ * @param {string} envId - Twikoo服务地址
+ * @returns {AnalyticsBackend}
+ */
+export const twikooBackend = (envId: string): AnalyticsBackend => {
+  const counter = async (url: string, title: string) => {
+    const response = await fetch(envId, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event: 'COUNTER_GET', url, href: location.href, title })
+    })
+    const { time } = await response.json()
+    return typeof time === 'number' ? time : undefined
+  }
+
+  // 读取计数器同时会加一，getSite不单独请求，等待最近一次上报的结果
+  let resolveSite: (stats?: SiteStats) => void = () => {}
+  let site = new Promise<SiteStats | undefined>((resolve) => (resolveSite = resolve))
+
+  return {
+    async track({ path, title }) {
+      // 与Twikoo客户端保持一致，本地调试不计数
+      if (['localhost', '127.0.0.1', '0.0.0.0'].includes(location.hostname)) {
+        resolveSite()
+        return undefined
+      }
+      const [views, pv] = await Promise.all([
+        counter(path, title),
+        counter(TWIKOO_SITE_COUNTER, 'site').catch(() => undefined)
+      ])
+      const stats = pv === undefined ? undefined : { pv }
+      resolveSite(stats)
+      site = Promise.resolve(stats)
+      return views
+    },
+    getSite: () => site
+  }
+}
+
+/**
+ * 根据环境变量选择统计服务
+ * - 默认使用评论的Twikoo服务：页面访问量和全站访问量（DataPanel）
+ * - VITE_ANALYTICS_PROVIDER=server 时使用 VITE_ANALYTICS_ENDPOINT 指定的统计服务（scripts/analytics-server.mjs），
+ *   另外支持访客数和最多阅读（MostRead）
+ * - VITE_ANALYTICS_PROVIDER=none 时关闭统计
+ */
+const createBackend = (): AnalyticsBackend | undefined => {
+  const provider = import.meta.env.VITE_ANALYTICS_PROVIDER || 'twikoo'
+  if (provider === 'none') return undefined
+  if (provider === 'server') return serverBackend(import.meta.env.VITE_ANALYTICS_ENDPOINT || 'http://localhost:8788')
+  return twikooBackend(commentConfig.twikoo.envId)
+}
+
+export const analytics = createBackend()
+
+/** 已知的页面访问量，以 route.path 为键 */
+export const pageViews = reactive<Record<string, number>>({})
+
+/**
+ * 访客标识，保存在localStorage中，用于统计访客数
+ * @returns {string}
+ */
+const getVisitor = () => {
+  let visitor = localStorage.getItem('analytics-visitor')
+  if (!visitor) {
+    visitor = crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`
+    localStorage.setItem('analytics-visitor', visitor)
+  }
+  return visitor
+}
+
+/**
+ * 在主题的setup中调用：首次进入和每次切换路由时上报访问
+ * 页面以 location.pathname 区分，与Twikoo的计数保持一致
+ */
+export function usePageViewTracker() {
+  const route = useRoute()
+  const { page } = useData()
+  const track = async () => {
+    if (!analytics) return
+    const key = route.path
+    try {
+      const views = await analytics.track({ path: location.pathname, title: page.value.title, visitor: getVisitor() })
+      if (views !== undefined) pageViews[key] = views
+    } catch (error) {
+      console.warn('[analytics]', error)
+    }
+  }
+  onMounted(track)
+  watch(() => route.path, track)
+}
@@ -0,0 +1,431 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import fg from 'fast-glob';      // 快速文件系统匹配库
+import { createRequire } from 'module'; // 用于定位mermaid的浏览器脚本
+import type { DefaultTheme, SiteConfig } from 'vitepress';
+import { escapeXml } from './feed';
+import { getSectionNames } from './og';
+
+/** 电子书导出配置 */
+export interface BookOptions {
+  /** 站点域名，书中指向其他文章的链接补全为该域名下的地址 */
+  hostname: string
+  author: string
+  /** 要导出的章节：侧边栏分组名称（如 React 源码与原理），或侧边栏路径（如 /node/）导出整个专题 */
+  sections: string[]
+}
+
+/** 书中的一章，对应侧边栏中的一篇文章 */
+interface Chapter {
+  title: string
+  link: string
+}
+
+/** 浏览器中整理后的结果 */
+interface ProcessedBook {
+  html: string
+  chapters: { id: string; title: string; xhtml: string; headings: { id: string; text: string }[] }[]
+}
+
+/** 模拟的站点地址，页面及其资源由构建产物响应，不需要启动服务 */
+const ORIGIN = 'http://book.local';
+
+/** 资源的MIME类型，用于响应页面中的请求和生成电子书清单 */
+const mediaTypes: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+  '.css': 'text/css',
+  '.js': 'text/javascript',
+  '.html': 'text/html',
+};
+
+/** 封面、目录和章节的样式，正文样式沿用站点样式表 */
+const bookStyle = `
+body.book { max-width: 760px; margin: 0 auto; padding: 32px 24px; background: var(--vp-c-bg); color: var(--vp-c-text-1); font-family: var(--vp-font-family-base); }
+.book-cover { min-height: 60vh; display: flex; flex-direction: column; justify-content: center; text-align: center; }
+.book-cover h1 { margin: 0 0 16px; font-size: 40px; line-height: 1.3; }
+.book-cover p { margin: 4px 0; color: var(--vp-c-text-2); }
+.book-toc h1, .book-toc h2 { font-size: 24px; }
+.book-toc ol { list-style: none; padding-left: 0; line-height: 2; }
+.book-toc ol ol { padding-left: 1.5em; line-height: 1.8; font-size: 14px; }
+.book-toc a { color: inherit; text-decoration: none; }
+.chapter { margin-top: 64px; }
+.book-diagram { margin: 16px 0; text-align: center; }
+.book-diagram svg { max-width: 100%; height: auto; }
+@media print {
+  body.book { max-width: none; padding: 0; }
+  .book-cover, .book-toc { break-after: page; }
+  .chapter { margin-top: 0; break-before: page; }
+}
+`;
+
+/**
+ * 在侧边栏中查找要导出的章节
+ * @param {DefaultTheme.Sidebar} sidebar - themeConfig.sidebar
+ * @param {string} section - 分组名称或侧边栏路径
+ * @param {Record<string, string>} names - 导航栏中的目录名称，用作整个专题的书名
+ * @returns {{ title: string, chapters: Chapter[] } | undefined}
+ */
+const findSection = (sidebar: DefaultTheme.Sidebar = {}, section: string, names: Record<string, string>) => {
+  const flatten = (items: DefaultTheme.SidebarItem[]): Chapter[] => items.flatMap((item) => [
+    // 忽略外部链接
+    ...(item.link && !/^https?:/.test(item.link) ? [{ title: item.text ?? item.link, link: item.link.replace(/\.html$/, '') }] : []),
+    ...flatten(item.items ?? [])
+  ]);
+
+  const multi: DefaultTheme.SidebarMulti = Array.isArray(sidebar) ? { '/': sidebar } : sidebar;
+  for (const [base, value] of Object.entries(multi)) {
+    const items = Array.isArray(value) ? value : value.items;
+    if (base === section) return { title: names[base] ?? section, chapters: flatten(items) };
+    const group = items.find((item) => item.text === section && item.items);
+    if (group) return { title: section, chapters: flatten(group.items!) };
+  }
+};
+
+/**
+ * 读取构建后的页面，取出正文部分
+ * @param {string} outDir - 构建输出目录
+ * @param {string} link - 站内链接，如 /react/fiber
+ * @returns {Promise<string>} 正文HTML
+ */
+const readChapter = async (outDir: string, link: string) => {
+  const file = path.join(outDir, link.endsWith('/') ? `${link}index.html` : `${link}.html`);
+  const html = await fs.readFile(file, 'utf8');
+  const start = html.match(/<main class="main"[^>]*>/);
+  const end = html.lastIndexOf('</main>');
+  if (!start || end < 0) throw new Error(`[book] 未找到正文: ${file}`);
+  return html.slice(start.index! + start[0].length, end);
+};
+
+/**
+ * 在浏览器中整理合并后的页面：渲染Mermaid、改写锚点和链接、生成目录
+ * 函数会被序列化后在页面中执行，不能引用外部变量
+ * @param {Object} options - 整理选项
+ * @param {string} options.hostname - 站点域名
+ * @param {string[]} options.links - 各章节的站内链接（含base）
+ * @returns {Promise<ProcessedBook>}
+ */
+const processBook = async ({ hostname, links }: { hostname: string; links: string[] }): Promise<ProcessedBook> => {
+  const decode = (value: string) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+  // /react/fiber.html、/react/fiber 视为同一页面
+  const normalize = (pathname: string) => pathname.replace(/\.html$/, '').replace(/\/index$/, '/');
+  const chapterIds = new Map(links.map((link, index) => [normalize(link), `chapter-${index + 1}`]));
+
+  const mermaid = (window as any).mermaid;
+  // 电子书阅读器对foreignObject支持不好，文字使用SVG渲染
+  mermaid.initialize({ startOnLoad: false, securityLevel: 'loose', theme: 'default', htmlLabels: false, flowchart: { htmlLabels: false } });
+
+  const sections = [...document.querySelectorAll<HTMLElement>('section.chapter')];
+  let seq = 0;
+  for (const [index, section] of sections.entries()) {
+    const id = `chapter-${index + 1}`;
+    section.id = id;
+    // 标题锚点、字数统计和只在屏幕上有用的按钮
+    section.querySelectorAll('.header-anchor, .word, button.copy, .mermaid-diagram .toolbar, .runnable-code .toolbar').forEach((el) => el.remove());
+    // 懒加载的图片在打印时可能还未加载
+    section.querySelectorAll('img').forEach((img) => img.removeAttribute('loading'));
+
+    // 各章节的锚点加上章节前缀，避免重复
+    section.querySelectorAll('.vp-doc [id]').forEach((el) => {
+      el.id = `${id}-${el.id}`;
+    });
+    section.querySelectorAll('a[href]').forEach((a) => {
+      const href = a.getAttribute('href')!;
+      if (href.startsWith('#')) {
+        a.setAttribute('href', `#${id}-${decode(href.slice(1))}`);
+        return;
+      }
+      const url = new URL(href, location.href);
+      if (url.origin !== location.origin) return;
+      // 书中包含的文章跳转到对应章节，其他文章链接到站点
+      const target = chapterIds.get(normalize(url.pathname));
+      if (target) a.setAttribute('href', url.hash ? `#${target}-${decode(url.hash.slice(1))}` : `#${target}`);
+      else a.setAttribute('href', hostname + url.pathname + url.hash);
+    });
+
+    // Mermaid图表依次渲染，mermaid.initialize是全局配置
+    for (const diagram of section.querySelectorAll<HTMLElement>('.mermaid-diagram[data-code]')) {
+      const figure = document.createElement('figure');
+      figure.className = 'book-diagram';
+      const code = decode(diagram.dataset.code!);
+      try {
+        figure.innerHTML = (await mermaid.render(`book-mermaid-${++seq}`, code)).svg;
+      } catch (error) {
+        console.error('[book]', error);
+        const pre = document.createElement('pre');
+        pre.textContent = code;
+        figure.append(pre);
+      }
+      diagram.replaceWith(figure);
+    }
+  }
+
+  const chapters = sections.map((section) => ({
+    id: section.id,
+    title: section.dataset.title!,
+    xhtml: new XMLSerializer().serializeToString(section),
+    headings: [...section.querySelectorAll('h2[id]')].map((h2) => ({ id: h2.id, text: h2.textContent!.trim() }))
+  }));
+
+  // 目录：章节及其二级标题
+  const toc = document.querySelector('.book-toc ol')!;
+  for (const chapter of chapters) {
+    const item = document.createElement('li');
+    item.innerHTML = `<a href="#${chapter.id}"></a>`;
+    item.firstElementChild!.textContent = chapter.title;
+    if (chapter.headings.length) {
+      const list = document.createElement('ol');
+      for (const heading of chapter.headings) {
+        const entry = document.createElement('li');
+        const link = document.createElement('a');
+        link.href = `#${heading.id}`;
+        link.textContent = heading.text;
+        entry.append(link);
+        list.append(entry);
+      }
+      item.append(list);
+    }
+    toc.append(item);
+  }
+
+  return { html: `<!DOCTYPE html>\n${document.documentElement.outerHTML}`, chapters };
+};
+
+/**
+ * 将样式表中引用的站内字体转为data URI，导出的单页HTML不依赖站点上的文件
+ * @param {string} stylesheet - 站点样式表
+ * @param {string} outDir - 构建输出目录
+ * @param {string} base - 站点base
+ * @returns {Promise<string>} 内联字体后的样式
+ */
+const inlineFonts = async (stylesheet: string, outDir: string, base: string) => {
+  let css = stylesheet;
+  for (const [match, url] of stylesheet.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+    if (!url.startsWith(base) || url.startsWith('//')) continue;
+    const pathname = decodeURIComponent(url.split(/[?#]/)[0]);
+    const data = await fs.readFile(path.join(outDir, pathname.slice(base.length)));
+    const type = mediaTypes[path.extname(pathname).toLowerCase()] ?? 'application/octet-stream';
+    css = css.replace(match, `url(data:${type};base64,${data.toString('base64')})`);
+  }
+  return css;
+};
+
+/**
+ * 生成EPUB 3：每章一个XHTML文件，站内图片和样式表中的字体打包到书中
+ * @param {Object} options - 生成选项
+ * @returns {Promise<Buffer>} EPUB文件内容
+ */
+const renderEpub = async ({ title, options, outDir, base, stylesheet, chapters }: {
+  title: string
+  options: BookOptions
+  outDir: string
+  base: string
+  stylesheet: string
+  chapters: ProcessedBook['chapters']
+}) => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  // mimetype必须是第一个文件且不压缩
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+
+  // 站内资源复制到书中，相同的文件只保存一份
+  const resources = new Map<string, string>();
+  const addResource = async (url: string, dir: string) => {
+    const pathname = decodeURIComponent(url.replace(ORIGIN, '').split(/[?#]/)[0]);
+    if (!resources.has(pathname)) {
+      const name = `${dir}/${pathname.slice(base.length).replace(/\//g, '_')}`;
+      zip.file(`OEBPS/${name}`, await fs.readFile(path.join(outDir, pathname.slice(base.length))));
+      resources.set(pathname, name);
+    }
+    return resources.get(pathname)!;
+  };
+
+  let css = stylesheet;
+  for (const [match, url] of stylesheet.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+    if (url.startsWith(base) && !url.startsWith('//')) css = css.replace(match, `url(${await addResource(url, 'fonts')})`);
+  }
+  zip.file('OEBPS/style.css', `${css}\n${bookStyle}`);
+
+  const page = (pageTitle: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="zh-CN" lang="zh-CN">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(pageTitle)}</title>
+  <link rel="stylesheet" href="style.css"/>
+</head>
+<body class="book">
+${body}
+</body>
+</html>`;
+
+  const items: string[] = [];
+  for (const chapter of chapters) {
+    // 章节间的锚点指向对应的文件
+    let xhtml = chapter.xhtml.replace(/href="#(chapter-\d+)([^"]*)"/g, (_, id, rest) => `href="${id}.xhtml${rest ? `#${id}${rest}` : ''}"`);
+    for (const [match, url] of chapter.xhtml.matchAll(/\ssrc="([^"]+)"/g)) {
+      if (url.startsWith(ORIGIN) || (url.startsWith(base) && !url.startsWith('//'))) xhtml = xhtml.replace(match, ` src="${await addResource(url, 'images')}"`);
+    }
+    zip.file(`OEBPS/${chapter.id}.xhtml`, page(chapter.title, xhtml));
+    const properties = [xhtml.includes('<svg') && 'svg', xhtml.includes('<math') && 'mathml', /\ssrc="https?:/.test(xhtml) && 'remote-resources']
+      .filter(Boolean).join(' ');
+    items.push(`<item id="${chapter.id}" href="${chapter.id}.xhtml" media-type="application/xhtml+xml"${properties ? ` properties="${properties}"` : ''}/>`);
+  }
+
+  zip.file('OEBPS/nav.xhtml', page('目录', `<nav epub:type="toc" id="toc" class="book-toc">
+  <h1>目录</h1>
+  <ol>
+${chapters.map((chapter) => `    <li><a href="${chapter.id}.xhtml">${escapeXml(chapter.title)}</a>${chapter.headings.length ? `<ol>${chapter.headings.map((heading) =>
+    `<li><a href="${chapter.id}.xhtml#${escapeXml(heading.id)}">${escapeXml(heading.text)}</a></li>`).join('')}</ol>` : ''}</li>`).join('\n')}
+  </ol>
+</nav>`));
+
+  const resourceItems = [...resources.values()].map((name, index) =>
+    `<item id="res-${index + 1}" href="${escapeXml(name)}" media-type="${mediaTypes[path.extname(name).toLowerCase()] ?? 'application/octet-stream'}"/>`);
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="zh-CN">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(`${options.hostname}/books/${encodeURIComponent(title)}`)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:creator>${escapeXml(options.author)}</dc:creator>
+    <dc:language>zh-CN</dc:language>
+    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+    ${[...items, ...resourceItems].join('\n    ')}
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+    ${chapters.map((chapter) => `<itemref idref="${chapter.id}"/>`).join('\n    ')}
+  </spine>
+</package>`);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+};
+
+/**
+ * 在buildEnd中调用，将侧边栏中的一组文章按顺序导出为电子书
+ * 在 outDir/books/ 下生成：
+ * - <书名>.html：单页HTML，包含目录，可直接在浏览器中打印
+ * - <书名>.pdf：按打印样式（style/print.css）生成的PDF
+ * - <书名>.epub：EPUB 3电子书
+ * 正文取自构建产物，代码高亮、公式和提示块与站点一致；Mermaid图表和PDF通过puppeteer在无头浏览器中生成
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {BookOptions} options - 导出配置
+ */
+export const generateBooks = async (siteConfig: SiteConfig, options: BookOptions) => {
+  const { outDir } = siteConfig;
+  const { base, themeConfig } = siteConfig.site;
+  const names = getSectionNames(themeConfig.nav);
+  const [stylesheetFile] = await fg('assets/style.*.css', { cwd: outDir });
+  const stylesheet = await fs.readFile(path.join(outDir, stylesheetFile), 'utf8');
+  // 单页HTML内联样式和字体，下载后可以离线打开
+  const inlineStylesheet = await inlineFonts(stylesheet, outDir, base);
+  const mermaidScript = createRequire(import.meta.url).resolve('mermaid/dist/mermaid.min.js');
+  await fs.mkdir(path.join(outDir, 'books'), { recursive: true });
+
+  // 浏览器只在导出时加载
+  const { default: puppeteer } = await import('puppeteer');
+  const browser = await puppeteer.launch();
+  try {
+    for (const section of options.sections) {
+      const found = findSection(themeConfig.sidebar, section, names);
+      if (!found?.chapters.length) {
+        throw new Error(`[book] 侧边栏中没有找到 "${section}"，可以使用分组名称（如 React 源码与原理）或侧边栏路径（如 /node/）`);
+      }
+      const { title, chapters } = found;
+      const filename = title.replace(/[\\/:*?"<>|\s]+/g, '-');
+
+      const bodies = await Promise.all(chapters.map((chapter) => readChapter(outDir, chapter.link)));
+      const draft = `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXml(title)} | ${escapeXml(options.author)}</title>
+  <style>${inlineStylesheet}\n${bookStyle}</style>
+</head>
+<body class="book">
+  <header class="book-cover">
+    <h1>${escapeXml(title)}</h1>
+    <p>${escapeXml(options.author)} · ${escapeXml(options.hostname)}</p>
+    <p>${new Date().toLocaleDateString('zh-CN')}</p>
+  </header>
+  <nav class="book-toc">
+    <h2>目录</h2>
+    <ol></ol>
+  </nav>
+${chapters.map((chapter, index) => `  <section class="chapter" data-title="${escapeXml(chapter.title)}">${bodies[index]}</section>`).join('\n')}
+</body>
+</html>`;
+
+      const page = await browser.newPage();
+      // 以站点地址打开合并后的页面，样式、字体和图片从构建产物中读取
+      await page.setRequestInterception(true);
+      page.on('request', async (request) => {
+        const url = new URL(request.url());
+        if (url.origin !== ORIGIN) return request.continue();
+        if (url.pathname === `${base}books/${filename}.html`) {
+          return request.respond({ contentType: 'text/html', body: draft });
+        }
+        try {
+          const body = await fs.readFile(path.join(outDir, decodeURIComponent(url.pathname).slice(base.length)));
+          await request.respond({ contentType: mediaTypes[path.extname(url.pathname).toLowerCase()] ?? 'application/octet-stream', body });
+        } catch {
+          await request.respond({ status: 404, body: '' });
+        }
+      });
+      await page.goto(`${ORIGIN}${base}books/${filename}.html`, { waitUntil: 'networkidle0' });
+      await page.addScriptTag({ path: mermaidScript });
+
+      const book = await page.evaluate(processBook, {
+        hostname: options.hostname,
+        links: chapters.map((chapter) => `${base}${chapter.link.slice(1)}`)
+      });
+      // 等待取消懒加载后的图片和字体
+      await page.waitForNetworkIdle();
+      await page.evaluate(() => document.fonts.ready);
+
+      const output = path.join(outDir, 'books', filename);
+      // 单页HTML中的Mermaid图表已渲染为SVG，不再需要脚本
+      await fs.writeFile(`${output}.html`, book.html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/g, ''));
+      await page.pdf({
+        path: `${output}.pdf`,
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '20mm', bottom: '20mm', left: '16mm', right: '16mm' },
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate: '<div style="width: 100%; font-size: 9px; text-align: center; color: #888;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>'
+      });
+      await fs.writeFile(`${output}.epub`, await renderEpub({ title, options, outDir, base, stylesheet, chapters: book.chapters }));
+      await page.close();
+
+      siteConfig.logger.info(`[book] ${title}: ${chapters.length} chapters exported to books/${filename}.{html,pdf,epub}`);
+    }
+  } finally {
+    await browser.close();
+  }
+};
@@ -0,0 +1,224 @@
+/** 评论挂载时的页面信息 */
+export interface CommentContext {
+  /** 评论区容器 */
+  el: HTMLElement
+  isDark: boolean
+  /** 页面语言，如 zh-CN、en-US */
+  lang: string
+}
+
+/** 评论服务适配器 */
+export interface CommentProvider {
+  /** 评论区进入可视区域时调用，加载失败时抛出异常 */
+  mount(ctx: CommentContext): Promise<void>
+  /** 切换深浅色 */
+  setTheme?(isDark: boolean): void
+}
+
+/** 评论配置，所有适配器共用 */
+export interface CommentConfig {
+  provider: 'twikoo' | 'giscus'
+  twikoo: {
+    /** Twikoo服务地址，本地调试时可指向 pnpm comments:mock 启动的服务 */
+    envId: string
+  }
+  giscus: {
+    repo: string
+    repoId: string
+    category: string
+    categoryId: string
+    mapping: string
+    inputPosition: 'top' | 'bottom'
+    lightTheme: string
+    darkTheme: string
+  }
+}
+
+// 评论服务可通过环境变量切换，如 VITE_COMMENT_PROVIDER=giscus
+export const commentConfig: CommentConfig = {
+  provider: import.meta.env.VITE_COMMENT_PROVIDER || 'twikoo',
+  twikoo: {
+    envId: import.meta.env.VITE_TWIKOO_ENV_ID || 'https://twikoocomment-kappa.vercel.app',
+  },
+  giscus: {
+    repo: 'Jensen0925/Jensen-blog',
+    repoId: 'R_kgDOPW-Lvw',
+    category: 'General',
+    categoryId: 'DIC_kwDOPW-Lv84CtscO',
+    mapping: 'pathname',
+    inputPosition: 'bottom',
+    lightTheme: 'light',
+    darkTheme: 'dark',
+  },
+}
+
+declare global {
+  interface Window {
+    /** lightGallery，由CDN脚本注册 */
+    lightGallery?: (el: Element, options: Record<string, unknown>) => void
+    /** Twikoo通过全局的renderMathInElement渲染评论中的公式 */
+    renderMathInElement?: (el: HTMLElement, options?: Record<string, unknown>) => void
+  }
+}
+
+/** twikoo没有类型声明，只用到init */
+interface Twikoo {
+  init(options: { envId: string; el: HTMLElement; lang: string; onCommentLoaded?: () => void }): Promise<void>
+}
+
+/** CDN资源的SRI哈希，升级版本时需要同步更新 */
+const LIGHT_GALLERY_CSS = {
+  url: 'https://cdn.jsdelivr.net/npm/lightgallery@2.1.8/css/lightgallery.css',
+  integrity: 'sha384-U8ohOXEVyF0NGY2LQnH83V4wGxOmFhim4U5xhfE/WDCHdPO2iUKPPYkhpDl9U/Yf'
+}
+const LIGHT_GALLERY_JS = {
+  url: 'https://cdn.jsdelivr.net/npm/lightgallery@2.1.8/lightgallery.min.js',
+  integrity: 'sha384-l5lFB9srHFAyvfCoHya9X1JwGGTNPvDtikieqZp7qu/bomCw0e0+yoyiL0f7UXLD'
+}
+
+const loaded = new Map<string, Promise<void>>()
+
+/**
+ * 加载外部脚本，同一地址只加载一次
+ * @param {string} src - 脚本地址
+ * @param {string} integrity - SRI哈希，如 sha384-...
+ * @returns {Promise<void>} 脚本加载完成
+ */
+export const loadScript = (src: string, integrity?: string) => {
+  if (!loaded.has(src)) {
+    loaded.set(src, new Promise((resolve, reject) => {
+      const script = document.createElement('script')
+      script.src = src
+      if (integrity) script.integrity = integrity
+      script.crossOrigin = 'anonymous'
+      script.onload = () => resolve()
+      script.onerror = () => {
+        loaded.delete(src)
+        reject(new Error(`Failed to load ${src}`))
+      }
+      document.head.appendChild(script)
+    }))
+  }
+  return loaded.get(src)!
+}
+
+/**
+ * 加载外部样式，同一地址只加载一次
+ * @param {string} href - 样式地址
+ * @param {string} integrity - SRI哈希，如 sha384-...
+ */
+export const loadStyle = (href: string, integrity?: string) => {
+  if (document.querySelector(`link[href="${href}"]`)) return
+  const link = document.createElement('link')
+  link.rel = 'stylesheet'
+  link.href = href
+  if (integrity) link.integrity = integrity
+  link.crossOrigin = 'anonymous'
+  document.head.appendChild(link)
+}
+
+/**
+ * 为文章和评论中的图片启用lightGallery预览
+ */
+const initLightGallery = () => {
+  const { lightGallery } = window
+  if (!lightGallery) return
+  const containers = [
+    ...document.getElementsByClassName('vp-doc'),
+    ...document.getElementsByClassName('tk-content')
+  ]
+  for (const container of containers) {
+    const images = [...container.getElementsByTagName('img')]
+    if (!images.length) continue
+    for (const img of images) {
+      if (img.parentElement?.tagName === 'A') continue
+      const link = document.createElement('a')
+      link.className = 'tk-lg-link'
+      link.href = img.getAttribute('src') ?? ''
+      link.dataset.src = img.getAttribute('src') ?? ''
+      link.appendChild(img.cloneNode(false))
+      img.replaceWith(link)
+    }
+    lightGallery(container, { selector: '.tk-lg-link', share: false })
+  }
+}
+
+/**
+ * 将页面语言转换为评论服务支持的语言，英文页面统一使用en
+ * @param {string} lang - 页面语言
+ * @returns {string}
+ */
+const toProviderLang = (lang: string) => lang.startsWith('en') ? 'en' : lang
+
+/**
+ * 为Twikoo注册全局的renderMathInElement
+ * 使用与文章相同的本地KaTeX，样式已由主题全局引入
+ */
+const loadKatex = async () => {
+  const { default: renderMathInElement } = await import('katex/contrib/auto-render') as {
+    default: NonNullable<Window['renderMathInElement']>
+  }
+  window.renderMathInElement = renderMathInElement
+}
+
+/** Twikoo：评论脚本来自npm包，KaTeX和lightGallery在首次挂载时按需加载 */
+const twikoo: CommentProvider = {
+  async mount({ el, lang }) {
+    loadStyle(LIGHT_GALLERY_CSS.url, LIGHT_GALLERY_CSS.integrity)
+    const [module] = await Promise.all([
+      import('twikoo') as Promise<Twikoo & { default?: Twikoo }>,
+      // KaTeX和lightGallery只影响公式和图片预览，加载失败不影响评论
+      loadKatex().catch((error) => console.warn(error)),
+      loadScript(LIGHT_GALLERY_JS.url, LIGHT_GALLERY_JS.integrity)
+        .catch((error) => console.warn(error)),
+    ])
+    // 加载期间切换了页面，容器已被移除
+    if (!el.isConnected) return
+    const { init } = module.default ?? module
+    // 不传path，评论以 location.pathname 区分，与已有的评论数据保持一致
+    await init({
+      envId: commentConfig.twikoo.envId,
+      el,
+      lang: toProviderLang(lang),
+      onCommentLoaded: initLightGallery
+    })
+  }
+}
+
+/** giscus：基于GitHub Discussions，通过iframe加载 */
+const giscus: CommentProvider = {
+  async mount({ el, isDark, lang }) {
+    const config = commentConfig.giscus
+    const script = document.createElement('script')
+    script.src = 'https://giscus.app/client.js'
+    script.async = true
+    script.crossOrigin = 'anonymous'
+    Object.entries({
+      repo: config.repo,
+      repoId: config.repoId,
+      category: config.category,
+      categoryId: config.categoryId,
+      mapping: config.mapping,
+      inputPosition: config.inputPosition,
+      reactionsEnabled: '1',
+      emitMetadata: '0',
+      lang: toProviderLang(lang),
+      theme: isDark ? config.darkTheme : config.lightTheme,
+      loading: 'lazy',
+    }).forEach(([key, value]) => { script.dataset[key] = value })
+    await new Promise<void>((resolve, reject) => {
+      script.onload = () => resolve()
+      script.onerror = () => reject(new Error('Failed to load giscus'))
+      el.appendChild(script)
+    })
+  },
+  setTheme(isDark) {
+    const config = commentConfig.giscus
+    document.querySelector<HTMLIFrameElement>('iframe.giscus-frame')?.contentWindow?.postMessage(
+      { giscus: { setConfig: { theme: isDark ? config.darkTheme : config.lightTheme } } },
+      'https://giscus.app'
+    )
+  }
+}
+
+export const commentProviders: Record<CommentConfig['provider'], CommentProvider> = { twikoo, giscus }
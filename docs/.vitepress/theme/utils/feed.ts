@@ -0,0 +1,278 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import { createMarkdownRenderer, type HeadConfig, type SiteConfig } from 'vitepress';
+import { ignoredDirs, readPosts, usePosts } from './permalink';
+import type { QuizOption } from './quiz';
+import type { PostSummary } from './types';
+
+/** 订阅源配置 */
+export interface FeedOptions {
+  /** 站点域名，如 https://example.com */
+  hostname: string
+  /** 订阅源标题 */
+  title: string
+  /** 订阅源描述 */
+  description: string
+  /** 作者 */
+  author?: string
+  /** 每个订阅源最多包含的文章数，默认20 */
+  limit?: number
+}
+
+/** 订阅源中的一篇文章 */
+interface FeedItem extends PostSummary {
+  url: string
+  summary: string
+  html: string
+}
+
+/** 订阅源文件名及MIME类型，用于生成文件和自动发现链接 */
+const feedFiles = [
+  { file: 'feed.xml', type: 'application/rss+xml' },
+  { file: 'atom.xml', type: 'application/atom+xml' },
+  { file: 'feed.json', type: 'application/feed+json' }
+];
+
+/**
+ * 转义XML特殊字符
+ * @param {string} value - 原始文本
+ * @returns {string} 转义后的文本
+ */
+export const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&apos;'
+  })[char]!);
+
+/**
+ * 将HTML包裹为CDATA，拆分内容中的结束标记
+ * @param {string} value - HTML内容
+ * @returns {string} CDATA片段
+ */
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * 订阅源中需要展开的主题组件，属性是encodeURIComponent编码的内容（见 config.mts 和 utils/quiz.ts）
+ * 其他组件只保留内部的内容
+ */
+const componentRenderers: Record<string, (attrs: Record<string, string>) => string> = {
+  MermaidDiagram: ({ code = '' }) => `<pre><code class="language-mermaid">${escapeXml(decodeURIComponent(code))}</code></pre>`,
+  QuizBlock: ({ data = '' }) => {
+    const { question, options } = JSON.parse(decodeURIComponent(data)) as { question: string, options: QuizOption[] };
+    const items = options.map((option) => `<li>${option.correct ? '✅' : '⬜'} ${option.html}</li>`).join('');
+    return `<p><strong>${question}</strong></p>${items ? `<ul>${items}</ul>` : ''}`;
+  },
+  FlashCard: ({ question = '' }) => `<p><strong>${decodeURIComponent(question)}</strong></p>`
+};
+
+/**
+ * 将Vue组件的开始标签或自闭合标签替换为普通HTML
+ * @param {string} name - 组件名
+ * @param {string} attrs - 标签中的属性
+ * @returns {string}
+ */
+const renderComponent = (name: string, attrs: string) => {
+  const render = componentRenderers[name];
+  if (!render) return '';
+  try {
+    return render(Object.fromEntries([...attrs.matchAll(/([\w-]+)="([^"]*)"/g)].map(([, key, value]) => [key, value])));
+  } catch {
+    // 属性无法解析时和其他组件一样直接移除
+    return '';
+  }
+};
+
+/**
+ * 将Shiki高亮的代码块还原为普通的<pre><code>：去掉复制按钮、行号、Twoslash类型提示和逐个token的<span>
+ * @param {string} html - markdown渲染结果
+ * @returns {string}
+ */
+const simplifyCodeBlocks = (html: string) =>
+  html
+    .replace(/<template v-slot:popper\b[^>]*>[\s\S]*?<\/template>/g, '')
+    .replace(/<div class="line-numbers-wrapper"[^>]*>[\s\S]*?<\/div>/g, '')
+    .replace(
+      /<div class="language-([\w-]*)[^"]*"><button[^>]*><\/button><span class="lang">[^<]*<\/span><pre\b[^>]*><code>([\s\S]*?)<\/code><\/pre>\s*<\/div>/g,
+      (_, lang: string, code: string) => `<pre><code class="language-${lang}">${code.replace(/<[^>]+>/g, '')}</code></pre>`
+    );
+
+/**
+ * 整理渲染后的HTML：简化代码块，展开或移除主题组件标签，将站内链接和图片补全为绝对地址
+ * @param {string} html - markdown渲染结果
+ * @param {string} siteUrl - 站点地址，以/结尾
+ * @returns {string} 可在阅读器中直接显示的HTML
+ */
+const normalizeHtml = (html: string, siteUrl: string) =>
+  simplifyCodeBlocks(html)
+    .replace(/<([A-Z][\w-]*)\b([^>]*)>/g, (_, name: string, attrs: string) => renderComponent(name, attrs)) // Vue组件，如<ArticleMetadata />、<RunnableCode ...>
+    .replace(/<\/[A-Z][\w-]*>/g, '')
+    .replace(/\s(href|src)="\/(?!\/)/g, ` $1="${siteUrl}`);
+
+/**
+ * 从HTML中提取第一段文字作为摘要
+ * @param {string} html - 渲染后的HTML
+ * @param {number} length - 摘要最大长度
+ * @returns {string} 纯文本摘要
+ */
+const extractSummary = (html: string, length = 200) => {
+  const paragraph = html.match(/<p>([\s\S]*?)<\/p>/)?.[1] ?? '';
+  const text = paragraph
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(quot|amp|lt|gt|#39);/g, (_, name) => ({ quot: '"', amp: '&', lt: '<', gt: '>', '#39': "'" })[name as string]!)
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+};
+
+/**
+ * 生成RSS 2.0
+ */
+const renderRss = (items: FeedItem[], options: FeedOptions, home: string, self: string) => `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${home}</link>
+    <description>${escapeXml(options.description)}</description>
+    <language>zh-CN</language>
+    <lastBuildDate>${new Date(items[0]?.lastUpdated || Date.now()).toUTCString()}</lastBuildDate>
+    <atom:link href="${self}" rel="self" type="application/rss+xml"/>
+${items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${item.url}</link>
+      <guid isPermaLink="true">${item.url}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <description>${escapeXml(item.summary)}</description>
+      <content:encoded>${cdata(item.html)}</content:encoded>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>\n`).join('')}    </item>`).join('\n')}
+  </channel>
+</rss>
+`;
+
+/**
+ * 生成Atom 1.0
+ */
+const renderAtom = (items: FeedItem[], options: FeedOptions, home: string, self: string) => `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="zh-CN">
+  <id>${home}</id>
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <updated>${new Date(items[0]?.lastUpdated || Date.now()).toISOString()}</updated>
+  <link rel="alternate" href="${home}"/>
+  <link rel="self" href="${self}"/>
+${options.author ? `  <author><name>${escapeXml(options.author)}</name></author>\n` : ''}${items.map((item) => `  <entry>
+    <id>${item.url}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" href="${item.url}"/>
+    <published>${new Date(item.date).toISOString()}</published>
+    <updated>${new Date(item.lastUpdated || item.date).toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+    <content type="html">${escapeXml(item.html)}</content>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}"/>\n`).join('')}  </entry>`).join('\n')}
+</feed>
+`;
+
+/**
+ * 生成JSON Feed 1.1
+ */
+const renderJson = (items: FeedItem[], options: FeedOptions, home: string, self: string) => JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: options.title,
+  description: options.description,
+  home_page_url: home,
+  feed_url: self,
+  language: 'zh-CN',
+  authors: options.author ? [{ name: options.author }] : undefined,
+  items: items.map((item) => ({
+    id: item.url,
+    url: item.url,
+    title: item.title,
+    summary: item.summary,
+    content_html: item.html,
+    date_published: new Date(item.date).toISOString(),
+    date_modified: new Date(item.lastUpdated || item.date).toISOString(),
+    tags: item.tags
+  }))
+}, null, 2);
+
+/**
+ * 在buildEnd中调用，生成全站和各顶级目录的RSS、Atom、JSON Feed
+ * 全站订阅源输出到 /feed.xml，目录订阅源输出到 /<目录>/feed.xml
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {FeedOptions} options - 订阅源配置
+ */
+export const generateFeeds = async (siteConfig: SiteConfig, options: FeedOptions) => {
+  const { limit = 20 } = options;
+  const siteUrl = `${options.hostname.replace(/\/$/, '')}${siteConfig.site.base}`;
+  // usePosts和readPosts使用相对于工作目录的路径
+  const baseDir = path.relative(process.cwd(), siteConfig.srcDir);
+  const { rewrites } = await usePosts({ baseDir });
+  const posts = await readPosts({ baseDir, rewrites });
+
+  const md = await createMarkdownRenderer(
+    siteConfig.srcDir,
+    siteConfig.markdown,
+    siteConfig.site.base,
+    siteConfig.logger
+  );
+
+  // 按最后更新时间倒序
+  const items: FeedItem[] = await Promise.all(
+    [...posts]
+      .sort((a, b) => (b.lastUpdated || b.date) - (a.lastUpdated || a.date))
+      .map(async (post) => {
+        const src = await fs.readFile(path.join(siteConfig.srcDir, post.relativePath), 'utf8');
+        const html = normalizeHtml(md.render(src, { relativePath: post.relativePath }), siteUrl);
+        const url = `${siteUrl}${post.link.slice(1)}${siteConfig.cleanUrls || post.link.endsWith('/') ? '' : '.html'}`;
+        return { ...post, url, html, summary: post.description || extractSummary(html) };
+      })
+  );
+
+  // 全站订阅源以及每个顶级目录各自的订阅源
+  const feeds: Record<string, FeedItem[]> = { '': items };
+  for (const item of items) {
+    const section = item.relativePath.split('/')[0];
+    (feeds[`${section}/`] ??= []).push(item);
+  }
+
+  for (const [dir, entries] of Object.entries(feeds)) {
+    const list = entries.slice(0, limit);
+    const home = `${siteUrl}${dir}`;
+    const outDir = path.join(siteConfig.outDir, dir);
+    const feedOptions = dir ? { ...options, title: `${options.title} · ${dir.slice(0, -1)}` } : options;
+    await fs.mkdir(outDir, { recursive: true });
+    await fs.writeFile(path.join(outDir, 'feed.xml'), renderRss(list, feedOptions, home, `${home}feed.xml`));
+    await fs.writeFile(path.join(outDir, 'atom.xml'), renderAtom(list, feedOptions, home, `${home}atom.xml`));
+    await fs.writeFile(path.join(outDir, 'feed.json'), renderJson(list, feedOptions, home, `${home}feed.json`));
+  }
+
+  siteConfig.logger.info(`feeds generated for ${Object.keys(feeds).length - 1} sections`);
+};
+
+/**
+ * 在transformHead中调用，生成订阅源的自动发现链接
+ * @param {string} filePath - 页面源文件路径（pageData.filePath）
+ * @param {string} title - 站点标题
+ * @param {string} base - 站点base
+ * @returns {HeadConfig[]} 全站订阅源及页面所在目录订阅源的link标签
+ */
+export const getFeedHead = (filePath: string, title: string, base = '/'): HeadConfig[] => {
+  const section = filePath.includes('/') ? filePath.split('/')[0] : '';
+  const dirs = [''];
+  if (section && !ignoredDirs.includes(section)) dirs.push(`${section}/`);
+
+  return dirs.flatMap((dir) =>
+    feedFiles.map(({ file, type }): HeadConfig => [
+      'link',
+      {
+        rel: 'alternate',
+        type,
+        title: dir ? `${title} · ${dir.slice(0, -1)}` : title,
+        href: `${base}${dir}${file}`
+      }
+    ])
+  );
+};
@@ -0,0 +1,214 @@
+// 导入必要的库
+import matter from 'gray-matter'; // 用于解析Markdown文件的frontmatter
+import fg from 'fast-glob';      // 快速文件系统匹配库
+import path from 'path';         // 路径处理库
+import type { SiteConfig } from 'vitepress';
+import type { MermaidTheme, PostFrontmatter } from './types';
+
+/** 字段规则：类型及额外的检查，check返回错误信息 */
+interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'list'
+  check?: (value: unknown) => string | undefined
+}
+
+const mermaidThemes: MermaidTheme[] = ['default', 'neutral', 'dark', 'forest', 'base'];
+
+/** frontmatter的校验规则，与PostFrontmatter的字段一一对应 */
+export const frontmatterSchema: Record<keyof PostFrontmatter, FieldRule> = {
+  title: { type: 'string' },
+  description: { type: 'string' },
+  date: { type: 'date' },
+  updated: { type: 'date' },
+  tags: { type: 'list' },
+  categories: { type: 'list' },
+  draft: { type: 'boolean' },
+  publishAt: { type: 'date' },
+  cover: {
+    type: 'string',
+    check: (value) => /^(https?:\/\/|\/)/.test(String(value)) ? undefined : 'must be an absolute path or a URL'
+  },
+  comments: { type: 'boolean' },
+  permalink: {
+    type: 'string',
+    check: (value) => String(value).startsWith('/') ? undefined : 'must start with /'
+  },
+  series: { type: 'string' },
+  order: { type: 'number' },
+  sidebar: { type: 'boolean' },
+  sidebar_label: { type: 'string' },
+  sidebar_group: { type: 'string' },
+  mermaidTheme: {
+    type: 'string',
+    check: (value) => mermaidThemes.includes(value as MermaidTheme) ? undefined : `must be one of ${mermaidThemes.join(', ')}`
+  },
+  layoutClass: { type: 'string' },
+};
+
+/** VitePress内置的frontmatter字段，不在此处校验 */
+const builtinFields = [
+  'layout', 'hero', 'features', 'head', 'titleTemplate', 'navbar', 'aside', 'outline',
+  'lastUpdated', 'editLink', 'footer', 'pageClass', 'prev', 'next', 'search'
+];
+
+/** frontmatter中的一个问题 */
+export interface FrontmatterIssue {
+  /** 文件路径 */
+  file: string
+  /** 字段名 */
+  field: string
+  message: string
+  /** error会中断构建，warning只输出提示 */
+  level: 'error' | 'warning'
+}
+
+/**
+ * 检查字段值的类型
+ * @param {unknown} value - 字段值
+ * @param {FieldRule['type']} type - 期望的类型
+ * @returns {boolean}
+ */
+const matchesType = (value: unknown, type: FieldRule['type']) => {
+  switch (type) {
+    case 'date':
+      return (typeof value === 'string' || value instanceof Date) && !Number.isNaN(toTimestamp(value));
+    case 'list':
+      return typeof value === 'string' || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+};
+
+/** 类型不匹配时的提示 */
+const typeHints: Record<FieldRule['type'], string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'true or false',
+  date: 'a valid date, e.g. 2024-01-01 or 2024-01-01T08:00:00+08:00',
+  list: 'a string or a list of strings',
+};
+
+/**
+ * 按frontmatterSchema校验frontmatter
+ * @param {Record<string, unknown>} data - gray-matter解析出的frontmatter
+ * @param {string} file - 文件路径，用于错误信息
+ * @returns {FrontmatterIssue[]} 类型错误为error，未知字段为warning
+ */
+export const validateFrontmatter = (data: Record<string, unknown>, file: string): FrontmatterIssue[] => {
+  const issues: FrontmatterIssue[] = [];
+  for (const [field, value] of Object.entries(data)) {
+    const rule = frontmatterSchema[field as keyof PostFrontmatter];
+    if (!rule) {
+      if (!builtinFields.includes(field)) {
+        issues.push({ file, field, message: 'unknown field', level: 'warning' });
+      }
+      continue;
+    }
+    // 空值视为未设置
+    if (value == null) continue;
+    const message = matchesType(value, rule.type)
+      ? rule.check?.(value)
+      : `must be ${typeHints[rule.type]}, got ${JSON.stringify(value)}`;
+    if (message) issues.push({ file, field, message, level: 'error' });
+  }
+  return issues;
+};
+
+/**
+ * 将frontmatter中的日期转换为毫秒时间戳
+ * @param {string | Date} value - 日期
+ * @returns {number} 毫秒时间戳，无效日期返回NaN
+ */
+export const toTimestamp = (value: string | Date) => new Date(value).getTime();
+
+/**
+ * 文章是否已发布：不是草稿，且未设置publishAt或已到发布时间
+ * @param {PostFrontmatter} data - frontmatter
+ * @param {number} now - 当前时间，默认为构建时间
+ * @returns {boolean}
+ */
+export const isPublished = (data: PostFrontmatter, now = Date.now()) =>
+  data.draft !== true && !(data.publishAt && toTimestamp(data.publishAt) > now);
+
+/**
+ * 是否参与本次构建：开发环境中显示全部文章，生产构建只包含已发布的文章
+ * SHOW_DRAFTS=1 时生产构建也包含草稿，用于预览部署
+ * @param {PostFrontmatter} data - frontmatter
+ * @returns {boolean}
+ */
+export const isVisible = (data: PostFrontmatter) =>
+  process.env.NODE_ENV !== 'production' || !!process.env.SHOW_DRAFTS || isPublished(data);
+
+/**
+ * 未发布文章在开发环境侧边栏中的标记
+ * @param {PostFrontmatter} data - frontmatter
+ * @returns {string} 已发布的文章返回空字符串
+ */
+export const unpublishedLabel = (data: PostFrontmatter) =>
+  data.draft === true ? '草稿' : isPublished(data) ? '' : '定时发布';
+
+/** frontmatter校验失败时抛出，中断构建 */
+export class FrontmatterError extends Error {
+  issues: FrontmatterIssue[];
+
+  constructor(issues: FrontmatterIssue[]) {
+    super(
+      'Invalid frontmatter:\n' +
+      issues.map(({ file, field, message }) => `  ${file}: ${field} ${message}`).join('\n')
+    );
+    this.name = 'FrontmatterError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * 在config.mts中调用：校验所有页面的frontmatter，并找出不参与本次构建的草稿和定时发布文章
+ * 生产构建中存在错误时抛出FrontmatterError，其余问题由reportFrontmatterIssues输出
+ * 定时发布的文章在publishAt之后的下一次构建中出现，需要配合定时部署
+ * @param {Object} options - 配置选项
+ * @param {string} options.baseDir - 基础目录，默认为'docs'
+ * @returns {Promise<Object>} unpublished为相对于baseDir的路径，可直接用作srcExclude；issues为发现的问题
+ * @throws {FrontmatterError} 生产构建中存在类型错误时抛出
+ */
+export const checkFrontmatter = async ({
+  baseDir = 'docs'
+} = {}) => {
+  const files = (await fg('**/*.md', { cwd: baseDir, ignore: ['public/**', '**/node_modules/**'] })).sort();
+  const issues: FrontmatterIssue[] = [];
+  const unpublished: string[] = [];
+
+  for (const file of files) {
+    const { data } = matter.read(path.join(baseDir, file));
+    issues.push(...validateFrontmatter(data, path.join(baseDir, file)));
+    if (!isVisible(data)) unpublished.push(file);
+  }
+
+  const errors = issues.filter((issue) => issue.level === 'error');
+  if (errors.length && process.env.NODE_ENV === 'production') {
+    throw new FrontmatterError(errors);
+  }
+
+  return { unpublished, issues };
+};
+
+/**
+ * 输出checkFrontmatter发现的问题：构建时在buildEnd中调用，开发环境在启动开发服务器时调用
+ * @param {FrontmatterIssue[]} issues - checkFrontmatter的结果
+ * @param {SiteConfig['logger']} logger - VitePress的logger
+ */
+export const reportFrontmatterIssues = (issues: FrontmatterIssue[], logger: SiteConfig['logger']) => {
+  for (const { file, field, message, level } of issues) {
+    logger.warn(`[frontmatter] ${level}: ${file}: ${field} ${message}`);
+  }
+};
+
+/**
+ * 在buildEnd中调用：输出本次构建排除的草稿和定时发布文章
+ * @param {string[]} unpublished - checkFrontmatter的结果
+ * @param {SiteConfig['logger']} logger - VitePress的logger（siteConfig.logger）
+ */
+export const reportUnpublished = (unpublished: string[], logger: SiteConfig['logger']) => {
+  if (!unpublished.length) return;
+  logger.info(`[frontmatter] ${unpublished.length} unpublished page(s) excluded: ${unpublished.join(', ')}`);
+};
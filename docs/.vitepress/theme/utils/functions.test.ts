@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { getReadingStats, readingTime } from './functions'
+
+describe('getReadingStats', () => {
+    it('中文按字计数，英文按单词计数', () => {
+        expect(getReadingStats('你好世界 hello world').words).toBe(6)
+    })
+
+    it('代码块单独统计行数，不计入字数', () => {
+        const stats = getReadingStats('正文\n\n```js\nconst a = 1\n\nconsole.log(a)\n```\n\n~~~\nplain\n~~~\n')
+        expect(stats.words).toBe(2)
+        expect(stats.codeLines).toBe(3)
+    })
+
+    it('统计markdown和html两种写法的图片，不计入图片地址', () => {
+        const stats = getReadingStats('![图](./a.png)\n\n<img src="/b.png">\n')
+        expect(stats.images).toBe(2)
+        expect(stats.words).toBe(1)
+    })
+
+    it('忽略注释、组件标签和自定义容器标记', () => {
+        const stats = getReadingStats('<!-- 注释 -->\n::: tip 提示\n<Badge text="新" />内容\n:::\n')
+        expect(stats.words).toBe(2)
+    })
+
+    it('阅读时间包含图片和代码的时间', () => {
+        const stats = getReadingStats('```\n' + 'x\n'.repeat(60) + '```\n')
+        expect(stats.readingTime).toBe(readingTime(0, 0, 60))
+        expect(stats.readingTime).toBe(2)
+    })
+})
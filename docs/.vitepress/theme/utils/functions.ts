@@ -16,4 +16,54 @@ export function countWord(data: string) {
         }
     }
     return count
-}
\ No newline at end of file
+}
+
+/**
+ * 估算阅读时间
+ * @param words 正文字数，按每分钟275字计算
+ * @param images 图片数，前10张依次按13秒递增计算，之后每张3秒
+ * @param codeLines 代码行数，按每行2秒计算
+ * @returns 阅读时间（分钟，向上取整）
+ */
+export function readingTime(words: number, images = 0, codeLines = 0) {
+    const wordTime = (words / 275) * 60
+    const imageTime = images <= 10
+        // 等差数列求和
+        ? images * 13 + (images * (images - 1)) / 2
+        : 175 + (images - 10) * 3
+    const codeTime = codeLines * 2
+    return Math.ceil((wordTime + imageTime + codeTime) / 60)
+}
+
+export interface ReadingStats {
+    /** 正文字数，不含代码块 */
+    words: number
+    /** 代码块行数 */
+    codeLines: number
+    /** 图片数 */
+    images: number
+    /** 阅读时间（分钟） */
+    readingTime: number
+}
+
+/**
+ * 根据markdown源码统计阅读数据，代码块与正文分开计算
+ * @param content 不含frontmatter的markdown内容
+ */
+export function getReadingStats(content: string): ReadingStats {
+    let codeLines = 0
+    // 代码块单独统计行数，不计入字数
+    const prose = content.replace(/^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^\1\s*$/gm, (_, _fence, code: string) => {
+        codeLines += code.split('\n').filter(line => line.trim()).length
+        return ''
+    })
+    // 图片包括markdown语法和html标签两种写法
+    const images = (prose.match(/!\[[^\]]*\]\(|<img\s/g) || []).length
+    const text = prose
+        .replace(/<!--[\s\S]*?-->/g, '') // 注释
+        .replace(/<[^>]+>/g, '') // html标签和组件
+        .replace(/\]\([^)]*\)/g, ']') // 链接和图片地址
+        .replace(/^:::.*$/gm, '') // 自定义容器标记
+    const words = countWord(text)
+    return { words, codeLines, images, readingTime: readingTime(words, images, codeLines) }
+}
@@ -0,0 +1,180 @@
+// 导入必要的库
+import path from 'path';         // 路径处理库
+import type { PostSummary } from './types';
+
+/** 文章引用，只保留渲染需要的字段 */
+export interface PostRef {
+  title: string
+  link: string
+}
+
+/** 单篇文章的关联信息 */
+export interface PostGraphNode {
+  /** 引用了当前文章的文章 */
+  backlinks: PostRef[]
+  /** 内容相似的文章 */
+  related: PostRef[]
+}
+
+/** 参与计算的文章：摘要信息加markdown内容 */
+export interface GraphInput extends PostSummary {
+  content: string
+}
+
+/** 常见的无意义词，不参与相似度计算 */
+const stopWords = new Set([
+  '我们', '你们', '他们', '这个', '那个', '这些', '那些', '可以', '需要', '使用', '进行', '通过',
+  '如果', '因为', '所以', '但是', '以及', '或者', '一个', '没有', '就是', '还是', '什么', '如何',
+  '时候', '已经', '其中', '例如', '比如', '以下', '以上', '方式', '实现', '示例', '代码',
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'are', 'you', 'not', 'return', 'const', 'function'
+]);
+
+/**
+ * 解码链接，包含不完整的百分号编码（如 /a%zz）时返回原始字符串
+ * @param {string} url - 链接
+ * @returns {string}
+ */
+const decode = (url: string) => {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * 提取markdown中的站内链接
+ * @param {string} content - markdown内容
+ * @returns {string[]} 去掉锚点和查询参数后的链接
+ */
+const extractLinks = (content: string) => {
+  const links: string[] = [];
+  const pattern = /\]\(\s*<?([^)\s>]+)>?[^)]*\)|href="([^"]+)"/g;
+  for (const match of content.matchAll(pattern)) {
+    const url = (match[1] || match[2]).replace(/[?#].*$/, '');
+    // 跳过外部链接、纯锚点和静态资源
+    if (!url || /^[a-z]+:|^\/\//i.test(url) || /\.(png|jpe?g|gif|svg|webp|pdf)$/i.test(url)) continue;
+    links.push(decode(url));
+  }
+  return links;
+};
+
+/**
+ * 将链接解析为相对于docs目录的源文件路径
+ * @param {string} url - markdown中的链接
+ * @param {string} from - 链接所在文件的路径
+ * @returns {string} 源文件路径，如 react/fiber.md
+ */
+const resolveLink = (url: string, from: string) => {
+  const target = url.startsWith('/') ? url.slice(1) : path.posix.join(path.posix.dirname(from), url);
+  if (target === '' || target.endsWith('/')) return `${target}index.md`;
+  return target.replace(/\.html$/, '').replace(/(\.md)?$/, '.md');
+};
+
+/**
+ * 分词并统计词频，中文按词切分，忽略代码块和单字
+ * @param {string} content - markdown内容
+ * @returns {Map<string, number>} 词及出现次数
+ */
+const countTerms = (content: string) => {
+  const text = content.replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1\s*$/gm, '');
+  const segmenter = new Intl.Segmenter('zh-CN', { granularity: 'word' });
+  const terms = new Map<string, number>();
+  for (const { segment, isWordLike } of segmenter.segment(text)) {
+    const term = segment.toLowerCase();
+    if (!isWordLike || term.length < 2 || /^\d+$/.test(term) || stopWords.has(term)) continue;
+    terms.set(term, (terms.get(term) || 0) + 1);
+  }
+  return terms;
+};
+
+/**
+ * 提取二、三级标题
+ * @param {string} content - markdown内容
+ * @returns {Set<string>} 标题文本（小写）
+ */
+const extractHeadings = (content: string) =>
+  new Set([...content.matchAll(/^#{2,3}\s+(.+?)\s*$/gm)].map((match) => match[1].toLowerCase()));
+
+/**
+ * 计算两个集合的Jaccard相似度
+ */
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * 构建文章关联图：记录文章间的引用关系，并根据标签、标题和词语计算相似文章
+ * 相似度 = 共同标签数 × 0.5 + 标题相似度 + 词语TF-IDF余弦相似度
+ * @param {GraphInput[]} posts - 文章及其markdown内容
+ * @param {number} limit - 每篇文章最多保留的相关文章数
+ * @returns {Record<string, PostGraphNode>} 以源文件路径为键的关联信息
+ */
+export const buildPostGraph = (posts: GraphInput[], limit = 5) => {
+  const byPath = new Map(posts.map((post) => [post.relativePath, post]));
+  const byLink = new Map(posts.map((post) => [post.link, post]));
+  const graph: Record<string, PostGraphNode> = {};
+  for (const post of posts) {
+    graph[post.relativePath] = { backlinks: [], related: [] };
+  }
+
+  // 引用关系
+  for (const post of posts) {
+    const targets = new Set<string>();
+    for (const url of extractLinks(post.content)) {
+      const target = byPath.get(resolveLink(url, post.relativePath))
+        ?? byLink.get(url.replace(/\.(md|html)$/, ''));
+      if (target && target !== post) targets.add(target.relativePath);
+    }
+    for (const target of targets) {
+      graph[target].backlinks.push({ title: post.title, link: post.link });
+    }
+  }
+
+  // 词语权重使用TF-IDF
+  const termCounts = posts.map((post) => countTerms(post.content));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of termCounts) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  const vectors = termCounts.map((terms) => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    for (const [term, count] of terms) {
+      const weight = (1 + Math.log(count)) * Math.log(posts.length / documentFrequency.get(term)!);
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    return { vector, norm: Math.sqrt(norm) };
+  });
+  const cosine = (i: number, j: number) => {
+    const a = vectors[i];
+    const b = vectors[j];
+    if (!a.norm || !b.norm) return 0;
+    let dot = 0;
+    for (const [term, weight] of a.vector) dot += weight * (b.vector.get(term) || 0);
+    return dot / (a.norm * b.norm);
+  };
+  const headings = posts.map((post) => extractHeadings(post.content));
+
+  // 相似文章
+  posts.forEach((post, i) => {
+    graph[post.relativePath].related = posts
+      .map((other, j) => {
+        if (i === j) return { other, score: 0 };
+        const sharedTags = post.tags.filter((tag) => other.tags.includes(tag)).length;
+        return { other, score: sharedTags * 0.5 + jaccard(headings[i], headings[j]) + cosine(i, j) };
+      })
+      .filter(({ score }) => score > 0.1)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ other }) => ({ title: other.title, link: other.link }));
+  });
+
+  return graph;
+};
@@ -0,0 +1,93 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import { execFile } from 'child_process'; // 用于读取git提交记录
+import { promisify } from 'util';
+import type { PostChange } from './types';
+
+/** 文件的git提交记录 */
+export interface GitHistory {
+  /** 第一次提交时间（毫秒时间戳），未提交的文件为0 */
+  created: number
+  /** 最后一次提交时间（毫秒时间戳），未提交的文件为0 */
+  lastUpdated: number
+  /** 最后一次提交的改动 */
+  change?: PostChange
+}
+
+const git = async (args: string[]) =>
+  (await promisify(execFile)('git', args, { maxBuffer: 16 * 1024 * 1024 })).stdout;
+
+/**
+ * 计算每一行所在的二、三级标题，跳过代码块中的#
+ * @param {string} source - markdown源码（包含frontmatter，与git中的行号一致）
+ * @returns {(string | undefined)[]} 下标为行号-1
+ */
+export const getLineHeadings = (source: string) => {
+  const result: (string | undefined)[] = [];
+  let heading: string | undefined;
+  let fence = '';
+  for (const line of source.split('\n')) {
+    const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+    if (marker && (!fence || marker.startsWith(fence))) {
+      fence = fence ? '' : marker;
+    } else if (!fence) {
+      const match = line.match(/^#{2,3}\s+(.+?)(?:\s+\{#[^}]*\})?\s*#*\s*$/);
+      if (match) heading = match[1].replace(/`/g, '');
+    }
+    result.push(heading);
+  }
+  return result;
+};
+
+/**
+ * 解析 git log -p -U0 的输出，统计增删行数和改动所在的小节
+ * @param {string} patch - 补丁内容
+ * @param {string} source - 当前的文件内容
+ * @returns {PostChange}
+ */
+export const parsePatch = (patch: string, source: string): PostChange => {
+  const headings = getLineHeadings(source);
+  const sections = new Set<string>();
+  let additions = 0;
+  let deletions = 0;
+  for (const line of patch.split('\n')) {
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk) {
+      // 只有删除时count为0，改动位于start之后
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      for (let i = Math.max(start, 1); i <= Math.max(start + count - 1, start); i++) {
+        const heading = headings[i - 1];
+        if (heading) sections.add(heading);
+      }
+    } else if (line.startsWith('+') && !line.startsWith('+++')) {
+      additions++;
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      deletions++;
+    }
+  }
+  return { additions, deletions, sections: [...sections] };
+};
+
+/**
+ * 读取文件的创建时间、最后修改时间及最后一次提交的改动
+ * @param {string} file - 文件路径
+ * @returns {Promise<GitHistory>}
+ */
+export const getGitHistory = async (file: string): Promise<GitHistory> => {
+  try {
+    const [added, last, source] = await Promise.all([
+      // 跟踪重命名，最早的一条即为创建时间
+      git(['log', '--follow', '--diff-filter=A', '--format=%at', '--', file]),
+      git(['log', '-1', '--format=%at', '-p', '-U0', '--no-color', '--no-ext-diff', '--', file]),
+      fs.readFile(file, 'utf8'),
+    ]);
+    const [timestamp, ...patch] = last.split('\n');
+    const lastUpdated = Number(timestamp) * 1000;
+    if (!lastUpdated) return { created: 0, lastUpdated: 0 };
+    const created = Number(added.trim().split('\n').pop()) * 1000 || lastUpdated;
+    return { created, lastUpdated, change: parsePatch(patch.join('\n'), source) };
+  } catch {
+    return { created: 0, lastUpdated: 0 };
+  }
+};
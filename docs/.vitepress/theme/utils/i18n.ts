@@ -0,0 +1,282 @@
+import { useData, useRoute, useRouter, withBase } from 'vitepress'
+import { ref, watch } from 'vue'
+import { data as translations } from '../data/translations.data'
+
+/** 组件中的中文文案，{name} 为参数占位 */
+const root = {
+  updated: '更新',
+  words: '字数: {count} 字',
+  codeLines: '代码: {count} 行',
+  readingTime: '时长: {count} 分钟',
+  minutes: '{count} 分钟',
+  noTags: '暂无标签',
+  views: '阅读: {count} 次',
+  siteViews: '本站总访问量 {count} 次',
+  siteVisitors: '本站访客数 {count} 人次',
+  mostRead: '最多阅读',
+  readCount: '{count} 次阅读',
+  recentUpdates: '最近更新',
+  changeMajor: '大幅更新',
+  changeMinor: '小改',
+  moreSections: ' 等 {count} 节',
+  listSeparator: '、',
+  viewAllPosts: '查看全部文章',
+  postCount: '共 {count} 篇文章',
+  lastUpdated: '更新时间',
+  backToTop: '返回顶部',
+  commentsLoading: '评论加载中…',
+  commentsFailed: '评论加载失败，',
+  retry: '重试',
+  run: '运行',
+  stop: '停止',
+  edit: '编辑',
+  doneEditing: '完成编辑',
+  reset: '重置',
+  modifiedHint: '运行的是修改后的代码',
+  running: '运行中…',
+  translationFallback: '这篇文章还没有英文翻译，当前显示的是中文原文。',
+  backToEnglish: '返回英文站点',
+  readInOtherLanguage: 'Read in English',
+  all: '全部',
+  markDone: '标记为已读',
+  markedDone: '✓ 已读完',
+  continueReading: '继续阅读',
+  lastReadAt: '上次阅读于 {time}',
+  startLearning: '开始学习：{title} →',
+  continueLearning: '继续学习：{title} →',
+  pathFinished: '已全部读完 🎉',
+  diagramLoading: '图表加载中…',
+  diagramError: '图表解析失败',
+  diagramFullscreen: '全屏',
+  copySource: '复制源码',
+  copied: '已复制',
+  zoomIn: '放大',
+  zoomOut: '缩小',
+  resetZoom: '重置',
+  close: '关闭',
+  readerSettings: '阅读设置',
+  typography: '排版',
+  fontSize: '字号',
+  lineHeight: '行高',
+  contentWidth: '正文宽度',
+  widthDefault: '默认',
+  widthWide: '较宽',
+  widthFull: '全宽',
+  codeWrap: '代码自动换行',
+  effects: '动画效果',
+  clickEffect: '鼠标点击特效',
+  rainbow: '首页彩虹背景',
+  progressBar: '页面切换进度条',
+  themeTransition: '深浅色切换动画',
+  effectsHint: '未手动设置的效果跟随系统的“减少动态效果”设置',
+  downloadSection: '下载本专题离线阅读',
+  downloading: '正在下载 {done}/{total}',
+  downloaded: '已下载 {count} 篇，可离线阅读',
+  downloadFailed: '{count} 篇下载失败，点击重试',
+  cachedCopy: '离线缓存',
+  searchSites: '搜索站点名称、描述或链接',
+  searchSitesLabel: '搜索站点',
+  sitesFound: '找到 {count} 个站点',
+  noSites: '没有匹配的站点',
+  quiz: '测验',
+  multipleAnswers: '多选',
+  submit: '提交',
+  answerCorrect: '回答正确',
+  answerIncorrect: '回答错误',
+  quizRetry: '重做',
+  flashcard: '闪卡',
+  showAnswer: '显示答案',
+  hideAnswer: '隐藏答案',
+  nextReview: '下次复习：{date}',
+  goReview: '去复习',
+  reviewStats: '共 {total} 张 · 新卡片 {new} 张 · 待复习 {due} 张',
+  reviewEmpty: '这个专题还没有闪卡',
+  reviewDone: '本轮复习完成',
+  reviewNextDue: '下一张卡片将在 {date} 到期',
+  reviewSource: '出自',
+  gradeAgain: '重来',
+  gradeHard: '困难',
+  gradeGood: '良好',
+  gradeEasy: '简单',
+  intervalMinutes: '{count} 分钟',
+  intervalDays: '{count} 天',
+  exportProgress: '导出进度',
+  importProgress: '导入进度',
+  importDone: '已导入 {count} 张卡片的进度',
+  importFailed: '导入失败：文件格式不正确',
+  resetSection: '重置本专题',
+  confirmResetSection: '确定清除本专题所有闪卡的复习进度吗？',
+}
+
+export type MessageKey = keyof typeof root
+
+/** 各语言的文案，键为 localeIndex，缺少的文案使用中文 */
+export const messages: Record<string, Partial<Record<MessageKey, string>>> = {
+  root,
+  en: {
+    updated: 'Updated',
+    words: 'Words: {count}',
+    codeLines: 'Code: {count} lines',
+    readingTime: 'Reading time: {count} min',
+    minutes: '{count} min',
+    noTags: 'No tags yet',
+    views: 'Views: {count}',
+    siteViews: 'Total views {count}',
+    siteVisitors: 'Visitors {count}',
+    mostRead: 'Most read',
+    readCount: '{count} views',
+    recentUpdates: 'Recently updated',
+    changeMajor: 'Major update',
+    changeMinor: 'Minor edit',
+    moreSections: ' ({count} sections in total)',
+    listSeparator: ', ',
+    viewAllPosts: 'View all posts',
+    postCount: '{count} posts',
+    lastUpdated: 'Last updated',
+    backToTop: 'Back to top',
+    commentsLoading: 'Loading comments…',
+    commentsFailed: 'Failed to load comments. ',
+    retry: 'Retry',
+    run: 'Run',
+    stop: 'Stop',
+    edit: 'Edit',
+    doneEditing: 'Done',
+    reset: 'Reset',
+    modifiedHint: 'Running the modified code',
+    running: 'Running…',
+    translationFallback: 'This article has not been translated into English yet. You are reading the Chinese original.',
+    backToEnglish: 'Back to the English site',
+    readInOtherLanguage: '阅读中文版',
+    all: 'All',
+    markDone: 'Mark as read',
+    markedDone: '✓ Read',
+    continueReading: 'Continue reading',
+    lastReadAt: 'Last read {time}',
+    startLearning: 'Start: {title} →',
+    continueLearning: 'Continue: {title} →',
+    pathFinished: 'All done 🎉',
+    diagramLoading: 'Loading diagram…',
+    diagramError: 'Failed to parse the diagram',
+    diagramFullscreen: 'Fullscreen',
+    copySource: 'Copy source',
+    copied: 'Copied',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    resetZoom: 'Reset',
+    close: 'Close',
+    readerSettings: 'Reading preferences',
+    typography: 'Typography',
+    fontSize: 'Font size',
+    lineHeight: 'Line height',
+    contentWidth: 'Content width',
+    widthDefault: 'Default',
+    widthWide: 'Wide',
+    widthFull: 'Full',
+    codeWrap: 'Wrap code',
+    effects: 'Effects',
+    clickEffect: 'Click particles',
+    rainbow: 'Home page rainbow',
+    progressBar: 'Page loading bar',
+    themeTransition: 'Theme switch animation',
+    effectsHint: 'Effects you have not set follow your system\'s reduced motion setting',
+    downloadSection: 'Download this topic for offline reading',
+    downloading: 'Downloading {done}/{total}',
+    downloaded: '{count} pages available offline',
+    downloadFailed: '{count} pages failed, click to retry',
+    cachedCopy: 'Offline copy',
+    searchSites: 'Search by name, description or link',
+    searchSitesLabel: 'Search sites',
+    sitesFound: '{count} sites found',
+    noSites: 'No matching sites',
+    quiz: 'Quiz',
+    multipleAnswers: 'Multiple answers',
+    submit: 'Submit',
+    answerCorrect: 'Correct',
+    answerIncorrect: 'Incorrect',
+    quizRetry: 'Try again',
+    flashcard: 'Flashcard',
+    showAnswer: 'Show answer',
+    hideAnswer: 'Hide answer',
+    nextReview: 'Next review: {date}',
+    goReview: 'Review',
+    reviewStats: '{total} cards · {new} new · {due} due',
+    reviewEmpty: 'This topic has no flashcards yet',
+    reviewDone: 'All done for now',
+    reviewNextDue: 'The next card is due {date}',
+    reviewSource: 'From',
+    gradeAgain: 'Again',
+    gradeHard: 'Hard',
+    gradeGood: 'Good',
+    gradeEasy: 'Easy',
+    intervalMinutes: '{count} min',
+    intervalDays: '{count} d',
+    exportProgress: 'Export progress',
+    importProgress: 'Import progress',
+    importDone: 'Imported progress for {count} cards',
+    importFailed: 'Import failed: invalid file',
+    resetSection: 'Reset this topic',
+    confirmResetSection: 'Clear review progress for every card in this topic?',
+  },
+}
+
+/**
+ * 按当前语言获取组件文案
+ * @param {string} locale - 指定语言，默认为当前页面的语言
+ * @returns {{ t: (key: MessageKey, params?: Record<string, string | number>) => string }}
+ */
+export function useI18n(locale?: string) {
+  const { localeIndex } = useData()
+  const t = (key: MessageKey, params: Record<string, string | number> = {}) =>
+    (messages[locale ?? localeIndex.value]?.[key] ?? root[key]).replace(/\{(\w+)\}/g, (_, name) => String(params[name] ?? ''))
+  return { t }
+}
+
+/** 翻译所在的语言目录 */
+export const LOCALE_PREFIX = `/${translations.locale}/`
+
+/**
+ * 去掉base和.html后缀，与translations.data.ts中的链接格式一致
+ * @param {string} path - 路由路径
+ * @param {string} base - 站点base
+ * @returns {string}
+ */
+const normalize = (path: string, base: string) =>
+  `/${path.slice(base.length)}`.replace(/\.html$/, '').replace(/(^|\/)index$/, '$1')
+
+/** 是否从英文页面回退到了未翻译的中文原文 */
+export const translationFallback = ref(false)
+
+/**
+ * 当前页面对应的另一语言版本
+ * @param {string} link - 当前页面链接
+ * @returns {string | undefined} 中文页面返回英文翻译，英文页面返回中文原文
+ */
+export const getCounterpart = (link: string) => {
+  if (link.startsWith(LOCALE_PREFIX)) {
+    return translations.pages.find((page) => page.translation === link)?.link
+  }
+  return translations.pages.find((page) => page.link === link)?.translation
+}
+
+/**
+ * 在主题的setup中调用：英文页面不存在时跳转到中文原文，并记录来源用于显示提示
+ */
+export function useTranslationFallback() {
+  const { page, site } = useData()
+  const route = useRoute()
+  const router = useRouter()
+
+  watch(() => route.path, (path, previous) => {
+    const base = site.value.base
+    const link = normalize(path, base)
+    if (page.value.isNotFound && link.startsWith(LOCALE_PREFIX)) {
+      const source = link.slice(LOCALE_PREFIX.length - 1)
+      if (translations.pages.some((item) => item.link === source)) router.go(withBase(source))
+      return
+    }
+    // 从英文页面进入（包括上面的跳转）未翻译的中文页面时显示提示
+    const from = previous && normalize(previous, base)
+    const untranslated = translations.pages.some((item) => item.link === link && !item.translation)
+    translationFallback.value = !!from?.startsWith(LOCALE_PREFIX) && untranslated
+  }, { immediate: true })
+}
@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SiteConfig } from 'vitepress';
+import { checkLinks } from './links';
+
+let root: string;
+
+/**
+ * 写入测试文件
+ * @param {string} file - 相对于临时目录的路径
+ * @param {string} content - 文件内容
+ */
+const write = async (file: string, content: string) => {
+  await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+  await fs.writeFile(path.join(root, file), content);
+};
+
+/**
+ * 只包含checkLinks用到的字段的站点配置
+ * @param {Record<string, string>} rewrites - permalink重写
+ * @returns {SiteConfig}
+ */
+const siteConfig = (rewrites: Record<string, string> = {}) => ({
+  pages: ['index.md', 'react/fiber.md', 'react/hooks.md'],
+  rewrites: { map: rewrites, inv: {} },
+  srcDir: path.join(root, 'src'),
+  outDir: path.join(root, 'dist'),
+  cacheDir: path.join(root, 'cache'),
+  markdown: {},
+  site: {
+    base: '/',
+    themeConfig: {
+      nav: [{ text: '首页', link: '/' }, { text: 'React', items: [{ text: 'Fiber', link: '/react/fiber' }] }],
+      sidebar: { '/react/': [{ text: 'Hooks', link: '/react/hooks#missing' }] },
+    },
+    locales: {
+      en: { label: 'English', lang: 'en', themeConfig: { nav: [{ text: 'Home', link: '/en/' }] } },
+    },
+  },
+  logger: { warn: vi.fn(), info: vi.fn() },
+}) as unknown as SiteConfig;
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'links-'));
+  await write('src/index.md', '# 首页\n\n[Fiber](/react/fiber#work-loop)\n[不存在](/react/missing)\n');
+  await write('src/react/fiber.md', '---\ntitle: Fiber\n---\n\n# Fiber\n\n[Hooks](./hooks.md)\n\n<a href="./hooks#state">状态</a>\n[锚点](#不存在)\n');
+  await write('src/react/hooks.md', '# Hooks\n');
+  await write('src/public/demo.html', '');
+  await write('dist/index.html', '<h1 id="首页">首页</h1>');
+  await write('dist/react/fiber.html', '<h1 id="fiber">Fiber</h1><h2 id="work-loop">Work loop</h2>');
+  await write('dist/react/hooks.html', '<h1 id="hooks">Hooks</h1><h2 id="state">State</h2>');
+});
+
+afterAll(() => fs.rm(root, { recursive: true, force: true }));
+
+describe('checkLinks', () => {
+  it('找出失效的页面、锚点以及各语言导航栏中的链接', async () => {
+    const broken = await checkLinks(siteConfig());
+    expect(broken).toEqual([
+      { location: 'index.md:4', url: '/react/missing', reason: 'page not found' },
+      { location: 'react/fiber.md:10', url: '#%E4%B8%8D%E5%AD%98%E5%9C%A8', reason: 'anchor #不存在 not found in react/fiber.md' },
+      { location: "sidebar['/react/'] › Hooks", url: '/react/hooks#missing', reason: 'anchor #missing not found in react/hooks.md' },
+      { location: 'locales.en › nav › Home', url: '/en/', reason: 'page not found' },
+    ]);
+  });
+
+  it('public目录中的HTML文件和非页面链接视为有效', async () => {
+    await write('src/react/hooks.md', '# Hooks\n\n[演示](/demo.html)\n[图片](/logo.png)\n[邮件](mailto:a@b.c)\n');
+    const broken = await checkLinks(siteConfig());
+    expect(broken.filter(({ location }) => location.startsWith('react/hooks.md'))).toEqual([]);
+  });
+
+  it('按permalink重写后的地址解析相对链接', async () => {
+    const broken = await checkLinks(siteConfig({ 'react/fiber.md': 'posts/fiber.md' }));
+    expect(broken).toContainEqual({ location: 'react/fiber.md:7', url: './hooks.md', reason: 'page not found' });
+  });
+
+  it('error模式下存在失效链接时抛出', async () => {
+    await expect(checkLinks(siteConfig(), { mode: 'error' })).rejects.toThrow('4 broken link(s) found');
+  });
+});
@@ -0,0 +1,271 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import matter from 'gray-matter'; // 解析markdown文件的frontmatter
+import { createMarkdownRenderer, type DefaultTheme, type MarkdownRenderer, type SiteConfig } from 'vitepress';
+import type Token from 'markdown-it/lib/token.mjs';
+
+/** 链接检查配置 */
+export interface LinkCheckOptions {
+  /** warn只输出警告，error在存在失效链接时使构建失败 */
+  mode?: 'warn' | 'error'
+  /** 是否检查外部链接，默认不检查 */
+  external?: boolean
+  /** 外部链接白名单，匹配的地址视为有效，不发起请求 */
+  allowlist?: (string | RegExp)[]
+  /** 外部链接检查结果的缓存时间（毫秒），默认7天 */
+  cacheMaxAge?: number
+  /** 单个外部链接的超时时间（毫秒） */
+  timeout?: number
+}
+
+/** 一条失效链接 */
+export interface BrokenLink {
+  /** 链接所在位置，如 react/fiber.md:12 或 sidebar['/react/'] › Fiber */
+  location: string
+  url: string
+  reason: string
+}
+
+/** 页面中的一个链接及其行号 */
+interface LinkEntry {
+  url: string
+  line: number
+}
+
+/**
+ * 判断地址是否指向页面，与VitePress的死链检查保持一致：无扩展名或.md/.html
+ * @param {string} pathname - 去掉查询参数和锚点的地址
+ * @returns {boolean}
+ */
+const isPageLink = (pathname: string) => !/\.(?!html$|md$)[a-z0-9]+$/i.test(pathname);
+
+/**
+ * 解码链接中的路径或锚点
+ * @param {string} value - 百分号编码的字符串
+ * @returns {string | null} 编码不完整（如 /a%zz、#100%）时返回null
+ */
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 提取markdown中的链接及行号
+ * 只收集markdown链接和内联HTML中的href，图片由Vite负责检查
+ * @param {MarkdownRenderer} md - markdown-it实例
+ * @param {string} src - markdown源文件内容
+ * @returns {LinkEntry[]} 链接列表，行号从1开始
+ */
+const collectLinks = (md: MarkdownRenderer, src: string): LinkEntry[] => {
+  const { content } = matter(src);
+  // frontmatter占用的行数
+  const offset = src.slice(0, src.length - content.length).split('\n').length - 1;
+  const links: LinkEntry[] = [];
+  const pushHtmlLinks = (html: string, line: number) => {
+    for (const match of html.matchAll(/\shref="([^"]+)"/g)) {
+      links.push({ url: match[1], line: line + html.slice(0, match.index).split('\n').length - 1 });
+    }
+  };
+
+  const tokens: Token[] = md.parse(content, {});
+  for (const token of tokens) {
+    if (!token.map) continue;
+    const start = token.map[0] + offset + 1;
+    if (token.type === 'html_block') {
+      pushHtmlLinks(token.content, start);
+      continue;
+    }
+    // 行内元素没有行号，按换行数推算
+    let line = start;
+    for (const child of token.children ?? []) {
+      if (child.type === 'softbreak' || child.type === 'hardbreak') line++;
+      else if (child.type === 'link_open') links.push({ url: child.attrGet('href') ?? '', line });
+      else if (child.type === 'html_inline') pushHtmlLinks(child.content, line);
+    }
+  }
+  return links;
+};
+
+/**
+ * 读取构建产物中的所有id，作为可用的锚点
+ * @param {string} file - 页面HTML文件
+ * @returns {Promise<Set<string>>} 锚点集合，读取失败时为空集合
+ */
+const readAnchors = async (file: string) => {
+  const html = await fs.readFile(file, 'utf8').catch(() => '');
+  const anchors = new Set<string>();
+  for (const match of html.matchAll(/\sid="([^"]+)"/g)) {
+    anchors.add(match[1].replace(/&(quot|amp|lt|gt|#39);/g, (_, name) => ({ quot: '"', amp: '&', lt: '<', gt: '>', '#39': "'" })[name as string]!));
+  }
+  return anchors;
+};
+
+/**
+ * 检查外部链接，结果缓存在 cacheDir/link-check.json 中，检查通过的地址在缓存有效期内不再请求
+ * @param {Map<string, string[]>} urls - 外部链接与其所在位置
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {LinkCheckOptions} options - 链接检查配置
+ * @returns {Promise<BrokenLink[]>} 无法访问的外部链接
+ */
+const checkExternalLinks = async (urls: Map<string, string[]>, siteConfig: SiteConfig, options: LinkCheckOptions) => {
+  const cacheFile = path.join(siteConfig.cacheDir, 'link-check.json');
+  const cache: Record<string, number> = JSON.parse(await fs.readFile(cacheFile, 'utf8').catch(() => '{}'));
+  const maxAge = options.cacheMaxAge ?? 7 * 24 * 60 * 60 * 1000;
+  const isAllowed = (url: string) =>
+    (options.allowlist ?? []).some((rule) => typeof rule === 'string' ? url.startsWith(rule) : rule.test(url))
+    || Date.now() - (cache[url] ?? 0) < maxAge;
+
+  const request = async (url: string) => {
+    const init = { redirect: 'follow' as const, signal: AbortSignal.timeout(options.timeout ?? 10000) };
+    let response = await fetch(url, { ...init, method: 'HEAD' });
+    // 部分站点不支持HEAD请求
+    if (response.status === 405 || response.status === 403) response = await fetch(url, { ...init, method: 'GET' });
+    return response.status;
+  };
+
+  const broken: BrokenLink[] = [];
+  const queue = [...urls.keys()].filter((url) => !isAllowed(url));
+  // 限制并发数
+  await Promise.all(Array.from({ length: 8 }, async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      const reason = await request(url)
+        .then((status) => status < 400 ? '' : `HTTP ${status}`)
+        .catch((error) => error.name === 'TimeoutError' ? 'timeout' : String(error.cause?.code ?? error.message));
+      if (reason) {
+        urls.get(url)!.forEach((location) => broken.push({ location, url, reason }));
+      } else {
+        cache[url] = Date.now();
+      }
+    }
+  }));
+
+  await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+  await fs.writeFile(cacheFile, JSON.stringify(cache, null, 2));
+  return broken;
+};
+
+/**
+ * 在buildEnd中调用：检查所有站内链接、侧边栏和导航栏链接以及锚点
+ * 链接按照permalink重写后的地址解析，锚点以构建生成的HTML为准
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {LinkCheckOptions} options - 链接检查配置
+ * @returns {Promise<BrokenLink[]>} 失效链接，error模式下存在失效链接时抛出异常
+ */
+export const checkLinks = async (siteConfig: SiteConfig, options: LinkCheckOptions = {}) => {
+  const { pages, rewrites, srcDir, outDir } = siteConfig;
+  const routeOf = (page: string) => rewrites.map[page] ?? page;
+  const routes = new Set(pages.map(routeOf));
+  const anchorCache = new Map<string, Promise<Set<string>>>();
+  const anchorsOf = (route: string) => {
+    if (!anchorCache.has(route)) anchorCache.set(route, readAnchors(path.join(outDir, route.replace(/\.md$/, '.html'))));
+    return anchorCache.get(route)!;
+  };
+
+  const broken: BrokenLink[] = [];
+  const external = new Map<string, string[]>();
+
+  /**
+   * 检查单个链接
+   * @param {string} url - 链接地址
+   * @param {string} location - 报告中显示的位置
+   * @param {string} from - 链接所在页面重写后的路径，用于解析相对链接
+   */
+  const check = async (url: string, location: string, from = '') => {
+    if (/^https?:\/\//i.test(url)) {
+      if (!external.has(url)) external.set(url, []);
+      external.get(url)!.push(location);
+      return;
+    }
+    if (/^[a-z][a-z\d+.-]*:|^\/\//i.test(url)) return;
+
+    const { pathname, hash } = new URL(url, 'http://a.com');
+    if (!isPageLink(pathname)) return;
+
+    let target = from;
+    const cleanUrl = url.replace(/[?#].*$/, '');
+    const anchor = decode(hash.slice(1));
+    if (anchor === null) {
+      broken.push({ location, url, reason: 'malformed URL' });
+      return;
+    }
+    if (cleanUrl) {
+      const decoded = decode(cleanUrl.startsWith('/')
+        ? cleanUrl.slice(1)
+        : path.posix.join(path.posix.dirname(from), cleanUrl));
+      if (decoded === null) {
+        broken.push({ location, url, reason: 'malformed URL' });
+        return;
+      }
+      let resolved = decoded.replace(/\.(html|md)$/, '');
+      if (resolved === '' || resolved === '.' || resolved.endsWith('/')) resolved = `${resolved.replace(/^\.$/, '')}index`;
+      target = `${resolved}.md`;
+      if (!routes.has(target)) {
+        // 可能是public目录中的HTML文件
+        const publicFile = path.join(srcDir, 'public', `${resolved}.html`);
+        if (!await fs.access(publicFile).then(() => true, () => false)) {
+          broken.push({ location, url, reason: 'page not found' });
+        }
+        return;
+      }
+    }
+
+    if (anchor && !(await anchorsOf(target)).has(anchor)) {
+      broken.push({ location, url, reason: `anchor #${anchor} not found in ${target}` });
+    }
+  };
+
+  // 页面正文，动态路由的模板文件不在磁盘上，跳过
+  const md = await createMarkdownRenderer(srcDir, siteConfig.markdown, siteConfig.site.base, siteConfig.logger);
+  for (const page of pages) {
+    const src = await fs.readFile(path.join(srcDir, page), 'utf8').catch(() => null);
+    if (src === null) continue;
+    for (const { url, line } of collectLinks(md, src)) {
+      await check(url, `${page}:${line}`, routeOf(page));
+    }
+  }
+
+  // 侧边栏和导航栏，包括各语言单独配置的导航栏和侧边栏
+  const walk = async (items: (DefaultTheme.NavItem | DefaultTheme.NavItemChildren | DefaultTheme.SidebarItem)[], prefix: string) => {
+    for (const item of items) {
+      if ('link' in item && item.link) await check(item.link, `${prefix} › ${item.text}`);
+      if ('items' in item && item.items) await walk(item.items, prefix);
+    }
+  };
+  const themeConfigs: [string, DefaultTheme.Config | undefined][] = [
+    ['', siteConfig.site.themeConfig],
+    ...Object.entries(siteConfig.site.locales)
+      .map(([key, locale]): [string, DefaultTheme.Config | undefined] => [`locales.${key} › `, locale.themeConfig])
+  ];
+  for (const [scope, themeConfig] of themeConfigs) {
+    const { nav = [], sidebar = {} } = themeConfig ?? {};
+    await walk(nav, `${scope}nav`);
+    if (Array.isArray(sidebar)) {
+      await walk(sidebar, `${scope}sidebar`);
+    } else {
+      for (const [key, items] of Object.entries(sidebar)) {
+        await walk(Array.isArray(items) ? items : items.items, `${scope}sidebar['${key}']`);
+      }
+    }
+  }
+
+  if (options.external) {
+    broken.push(...await checkExternalLinks(external, siteConfig, options));
+  }
+
+  const { logger } = siteConfig;
+  for (const { location, url, reason } of broken) {
+    logger.warn(`  ${location}  ${url}  (${reason})`);
+  }
+  if (broken.length) {
+    const message = `${broken.length} broken link(s) found`;
+    if (options.mode === 'error') throw new Error(message);
+    logger.warn(message);
+  } else {
+    logger.info('no broken links found');
+  }
+  return broken;
+};
@@ -0,0 +1,115 @@
+import katex, { type KatexOptions } from 'katex'
+import type MarkdownIt from 'markdown-it'
+
+/** 构建时渲染公式的KaTeX选项，语法错误时显示红色源码而不是中断构建 */
+export const katexOptions: KatexOptions = {
+  throwOnError: false,
+  output: 'htmlAndMathml',
+  strict: 'ignore',
+}
+
+/**
+ * 渲染公式，外层加 v-pre 避免公式中的 {{ }} 被Vue当作插值
+ * @param {string} tex - 公式源码
+ * @param {boolean} displayMode - 是否为独立成行的公式
+ * @returns {string} HTML
+ */
+const renderMath = (tex: string, displayMode: boolean) => {
+  const html = katex.renderToString(tex, { ...katexOptions, displayMode })
+  return displayMode ? `<div class="math-block" v-pre>${html}</div>\n` : `<span v-pre>${html}</span>`
+}
+
+/**
+ * 行内公式 $...$，规则参考Pandoc：
+ * 开头的$后和结尾的$前不能是空白，结尾的$后不能是字母或数字，避免误识别 $5 和 $10、$set/$delete 这样的文本
+ * 公式中不能包含反引号，避免与行内代码中的$配对
+ */
+const mathInline = (state: any, silent: boolean) => {
+  const { src, pos } = state
+  if (src[pos] !== '$' || src[pos + 1] === '$') return false
+  if (/\s/.test(src[pos + 1] ?? ' ')) return false
+
+  let end = pos + 1
+  while ((end = src.indexOf('$', end)) !== -1) {
+    // 跳过转义的 \$
+    let backslashes = 0
+    while (src[end - 1 - backslashes] === '\\') backslashes++
+    if (backslashes % 2 === 0) break
+    end++
+  }
+  if (end === -1 || /\s/.test(src[end - 1]) || /\w/.test(src[end + 1] ?? '')) return false
+  if (src.slice(pos + 1, end).includes('`')) return false
+
+  if (!silent) {
+    const token = state.push('math_inline', 'math', 0)
+    token.markup = '$'
+    token.content = src.slice(pos + 1, end)
+  }
+  state.pos = end + 1
+  return true
+}
+
+/**
+ * 独立成行的公式，$$ 单独成行或与公式写在同一行：
+ * $$
+ * E = mc^2
+ * $$
+ */
+const mathBlock = (state: any, startLine: number, endLine: number, silent: boolean) => {
+  let start = state.bMarks[startLine] + state.tShift[startLine]
+  let max = state.eMarks[startLine]
+  // 缩进4个空格以上是代码块
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false
+  if (state.src.slice(start, start + 2) !== '$$') return false
+  if (silent) return true
+
+  let firstLine = state.src.slice(start + 2, max).trim()
+  let lastLine = ''
+  let line = startLine
+  let found = false
+  if (firstLine.endsWith('$$')) {
+    // $$ E = mc^2 $$
+    firstLine = firstLine.slice(0, -2)
+    found = true
+  }
+  while (!found) {
+    line++
+    if (line >= endLine) break
+    start = state.bMarks[line] + state.tShift[line]
+    max = state.eMarks[line]
+    // 列表等容器内的公式不能超出容器的缩进
+    if (start < max && state.sCount[line] < state.blkIndent) break
+    const text = state.src.slice(start, max).trim()
+    if (text.endsWith('$$')) {
+      lastLine = text.slice(0, -2)
+      found = true
+    }
+  }
+  if (!found) return false
+
+  state.line = line + 1
+  const token = state.push('math_block', 'math', 0)
+  token.block = true
+  token.markup = '$$'
+  token.map = [startLine, state.line]
+  token.content = [
+    firstLine,
+    state.getLines(startLine + 1, line, state.sCount[startLine], false),
+    lastLine
+  ].filter((text) => text.trim()).join('\n')
+  return true
+}
+
+/**
+ * 数学公式的markdown-it插件，构建时用KaTeX渲染为静态HTML
+ * 样式和字体由主题引入的 katex/dist/katex.min.css 提供，随站点一起打包
+ * @param {MarkdownIt} md - markdown-it实例
+ */
+export const mathPlugin = (md: MarkdownIt) => {
+  md.inline.ruler.after('escape', 'math_inline', mathInline)
+  md.block.ruler.after('blockquote', 'math_block', mathBlock, {
+    alt: ['paragraph', 'reference', 'blockquote', 'list']
+  })
+  md.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx].content, false)
+  md.renderer.rules.math_block = (tokens, idx) => renderMath(tokens[idx].content, true)
+}
@@ -0,0 +1,95 @@
+import type { MermaidTheme } from './types'
+
+/** 渲染选项 */
+export interface MermaidRenderOptions {
+  dark: boolean
+  /** 浅色模式下的主题，frontmatter.mermaidTheme 可覆盖 */
+  theme?: MermaidTheme
+  /** 是否使用HTML渲染文字，导出PNG时需要关闭，否则画布会被污染无法导出 */
+  htmlLabels?: boolean
+}
+
+let queue: Promise<unknown> = Promise.resolve()
+let seq = 0
+
+/**
+ * 渲染Mermaid图表，mermaid.initialize是全局配置，多个图表依次渲染避免互相影响
+ * @param {string} code - 图表源码
+ * @param {MermaidRenderOptions} options - 渲染选项
+ * @returns {Promise<string>} SVG，源码有误时抛出解析错误
+ */
+export const renderMermaid = (code: string, { dark, theme = 'default', htmlLabels = true }: MermaidRenderOptions) => {
+  const task = queue.then(async () => {
+    const { default: mermaid } = await import('mermaid')
+    mermaid.initialize({
+      startOnLoad: false,
+      // 与原插件一致，允许图表中使用图片和链接
+      securityLevel: 'loose',
+      theme: dark ? 'dark' : theme,
+      htmlLabels,
+      flowchart: { htmlLabels }
+    })
+    // 先解析，避免渲染失败时mermaid在页面中插入错误图表
+    await mermaid.parse(code)
+    const { svg } = await mermaid.render(`mermaid-${++seq}`, code)
+    return svg
+  })
+  queue = task.catch(() => { })
+  return task
+}
+
+/**
+ * 下载文件
+ * @param {Blob} blob - 文件内容
+ * @param {string} filename - 文件名
+ */
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+/**
+ * 导出SVG文件
+ * @param {string} svg - SVG源码
+ * @param {string} filename - 文件名，不含扩展名
+ */
+export const exportSvg = (svg: string, filename: string) => {
+  download(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `${filename}.svg`)
+}
+
+/**
+ * 将SVG绘制到画布上导出PNG
+ * @param {string} svg - SVG源码，不能包含foreignObject
+ * @param {string} filename - 文件名，不含扩展名
+ * @param {string} background - 背景色，PNG默认透明，在深色模式下不便查看
+ * @param {number} scale - 缩放倍数，默认2倍以便在高分屏上清晰显示
+ */
+export const exportPng = async (svg: string, filename: string, background: string, scale = 2) => {
+  // mermaid生成的SVG宽度为100%，按viewBox设置实际尺寸
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+  const root = doc.documentElement as unknown as SVGSVGElement
+  const { width, height } = root.viewBox.baseVal
+  root.setAttribute('width', String(width))
+  root.setAttribute('height', String(height))
+  root.style.maxWidth = ''
+
+  const image = new Image()
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(root))}`
+  await image.decode()
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.ceil(width * scale)
+  canvas.height = Math.ceil(height * scale)
+  const context = canvas.getContext('2d')!
+  context.fillStyle = background
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Failed to export PNG')
+  download(blob, `${filename}.png`)
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { validateNavData } from './nav';
+import type { NavData } from './types';
+
+describe('validateNavData', () => {
+  it('数据完整时没有问题', () => {
+    expect(validateNavData([
+      { title: '工具', items: [{ title: 'MDN', desc: '文档', link: 'https://developer.mozilla.org/' }] },
+    ])).toEqual([]);
+  });
+
+  it('缺少标题和链接为error，缺少描述和空分组为warning', () => {
+    const issues = validateNavData([
+      { title: '', items: [] },
+      { title: '工具', items: [{ title: '', link: '' }] },
+    ] as NavData[]);
+    expect(issues).toEqual([
+      { location: '#1', field: 'title', message: 'is required', level: 'error' },
+      { location: '#1', field: 'items', message: 'is empty', level: 'warning' },
+      { location: '工具 › #1', field: 'title', message: 'is required', level: 'error' },
+      { location: '工具 › #1', field: 'desc', message: 'is missing', level: 'warning' },
+      { location: '工具 › #1', field: 'link', message: 'is required', level: 'error' },
+    ]);
+  });
+
+  it('链接必须是绝对地址', () => {
+    const issues = validateNavData([
+      { title: '工具', items: [{ title: '站点', desc: '描述', link: 'example.com' }] },
+    ]);
+    expect(issues).toEqual([
+      { location: '工具 › 站点', field: 'link', message: 'must be an absolute path or a URL', level: 'error' },
+    ]);
+  });
+
+  it('忽略协议、www、末尾的/和大小写判断重复链接', () => {
+    const issues = validateNavData([
+      { title: '框架', items: [{ title: 'Vue', desc: '描述', link: 'https://vuejs.org' }] },
+      { title: '文档', items: [{ title: 'Vue 文档', desc: '描述', link: 'http://www.VueJS.org/' }] },
+    ]);
+    expect(issues).toEqual([
+      { location: '文档 › Vue 文档', field: 'link', message: 'duplicates 框架 › Vue', level: 'error' },
+    ]);
+  });
+});
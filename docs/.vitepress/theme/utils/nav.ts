@@ -0,0 +1,177 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import { createHash } from 'crypto'; // 用于生成图标文件名
+import type { NavData, NavLink } from './types';
+
+/** 资源导航数据中的一个问题 */
+export interface NavIssue {
+  /** 问题所在位置，如 前端框架 › Vue */
+  location: string
+  /** 字段名 */
+  field: string
+  message: string
+  /** error会中断构建，warning只输出提示 */
+  level: 'error' | 'warning'
+}
+
+/** 资源导航数据校验失败时抛出，中断构建 */
+export class NavDataError extends Error {
+  issues: NavIssue[];
+
+  constructor(issues: NavIssue[]) {
+    super(
+      'Invalid nav data:\n' +
+      issues.map(({ location, field, message }) => `  ${location}: ${field} ${message}`).join('\n')
+    );
+    this.name = 'NavDataError';
+    this.issues = issues;
+  }
+}
+
+/** 图标下载配置 */
+export interface NavIconOptions {
+  /** public目录，默认为'docs/public' */
+  publicDir?: string
+  /** 图标保存在public下的子目录 */
+  dir?: string
+  /** 单个图标的下载超时时间（毫秒） */
+  timeout?: number
+}
+
+/** 图标的Content-Type与扩展名 */
+const iconExtensions: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/x-icon': '.ico',
+  'image/vnd.microsoft.icon': '.ico',
+};
+
+/**
+ * 统一链接的写法，用于判断重复：忽略协议、www、末尾的/和大小写
+ * @param {string} link - 站点链接
+ * @returns {string}
+ */
+const normalizeLink = (link: string) =>
+  link.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+
+/**
+ * 校验资源导航数据
+ * - 分组缺少标题、站点缺少名称或链接、链接不是绝对地址、链接重复为error
+ * - 空分组、缺少描述为warning
+ * @param {NavData[]} data - 资源导航数据
+ * @returns {NavIssue[]}
+ */
+export const validateNavData = (data: NavData[]) => {
+  const issues: NavIssue[] = [];
+  // 链接第一次出现的位置
+  const seen = new Map<string, string>();
+
+  data.forEach((group, groupIndex) => {
+    const groupName = group.title?.trim() || `#${groupIndex + 1}`;
+    if (!group.title?.trim()) issues.push({ location: groupName, field: 'title', message: 'is required', level: 'error' });
+    if (!group.items?.length) issues.push({ location: groupName, field: 'items', message: 'is empty', level: 'warning' });
+
+    (group.items ?? []).forEach((item, itemIndex) => {
+      const location = `${groupName} › ${item.title?.trim() || `#${itemIndex + 1}`}`;
+      if (!item.title?.trim()) issues.push({ location, field: 'title', message: 'is required', level: 'error' });
+      if (!item.desc?.trim()) issues.push({ location, field: 'desc', message: 'is missing', level: 'warning' });
+      if (!item.link?.trim()) {
+        issues.push({ location, field: 'link', message: 'is required', level: 'error' });
+        return;
+      }
+      if (!/^(https?:\/\/|\/)/i.test(item.link)) {
+        issues.push({ location, field: 'link', message: 'must be an absolute path or a URL', level: 'error' });
+      }
+      const key = normalizeLink(item.link);
+      const first = seen.get(key);
+      if (first) issues.push({ location, field: 'link', message: `duplicates ${first}`, level: 'error' });
+      else seen.set(key, location);
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * 在资源导航的数据加载器中调用：生产构建中存在错误时抛出NavDataError，开发环境中只输出警告
+ * @param {NavData[]} data - 资源导航数据
+ * @throws {NavDataError} 生产构建中存在错误时抛出
+ */
+export const checkNavData = (data: NavData[]) => {
+  const issues = validateNavData(data);
+  const errors = issues.filter((issue) => issue.level === 'error');
+  if (errors.length && process.env.NODE_ENV === 'production') {
+    throw new NavDataError(errors);
+  }
+  for (const { location, field, message, level } of issues) {
+    console.warn(`[nav] ${level}: ${location}: ${field} ${message}`);
+  }
+};
+
+/**
+ * 生成首字母头像，颜色由名称决定，同一站点每次生成的颜色相同
+ * @param {string} title - 站点名称
+ * @returns {string} SVG
+ */
+export const renderLetterAvatar = (title: string) => {
+  const letter = ([...title.trim()][0] ?? '?').toUpperCase();
+  const hue = parseInt(createHash('md5').update(title).digest('hex').slice(0, 4), 16) % 360;
+  const escaped = letter.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 48"><rect width="48" height="48" rx="10" fill="hsl(${hue}, 55%, 52%)"/><text x="24" y="24" dy=".35em" text-anchor="middle" font-size="24" font-weight="600" font-family="system-ui, sans-serif" fill="#fff">${escaped}</text></svg>`;
+};
+
+/**
+ * 下载远程图标，已下载的图标直接复用
+ * @param {string} url - 图标地址
+ * @param {Required<NavIconOptions>} options - 下载配置
+ * @returns {Promise<string>} public下的路径，如 /nav-icons/1a2b3c4d5e6f.png
+ */
+const downloadIcon = async (url: string, { publicDir, dir, timeout }: Required<NavIconOptions>) => {
+  const name = createHash('sha1').update(url).digest('hex').slice(0, 12);
+  const iconDir = path.join(publicDir, dir);
+  const cached = (await fs.readdir(iconDir).catch(() => [] as string[])).find((file) => file.startsWith(`${name}.`));
+  if (cached) return `/${dir}/${cached}`;
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const type = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+  const ext = iconExtensions[type];
+  if (!ext) throw new Error(`unsupported content type ${type || '(none)'}`);
+
+  await fs.mkdir(iconDir, { recursive: true });
+  await fs.writeFile(path.join(iconDir, `${name}${ext}`), Buffer.from(await response.arrayBuffer()));
+  return `/${dir}/${name}${ext}`;
+};
+
+/**
+ * 处理站点图标：远程图标下载到public目录，缺少图标或下载失败时使用首字母头像
+ * 下载的图标按地址缓存，删除对应目录即可重新下载
+ * @param {NavData[]} data - 资源导航数据
+ * @param {NavIconOptions} options - 下载配置
+ * @returns {Promise<NavData[]>} 图标替换为本地路径或SVG的数据
+ */
+export const resolveNavIcons = async (data: NavData[], {
+  publicDir = 'docs/public',
+  dir = 'nav-icons',
+  timeout = 10000
+}: NavIconOptions = {}) => {
+  const resolveIcon = async (item: NavLink): Promise<NavLink['icon']> => {
+    if (!item.icon) return { svg: renderLetterAvatar(item.title ?? '') };
+    if (typeof item.icon !== 'string' || !/^https?:\/\//.test(item.icon)) return item.icon;
+    try {
+      return await downloadIcon(item.icon, { publicDir, dir, timeout });
+    } catch (error) {
+      console.warn(`[nav] failed to download icon of ${item.title} (${item.icon}): ${(error as Error).message}`);
+      return { svg: renderLetterAvatar(item.title ?? '') };
+    }
+  };
+
+  return Promise.all(data.map(async (group) => ({
+    ...group,
+    items: await Promise.all((group.items ?? []).map(async (item) => ({ ...item, icon: await resolveIcon(item) })))
+  })));
+};
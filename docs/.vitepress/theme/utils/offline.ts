@@ -0,0 +1,114 @@
+import { useRoute, withBase } from 'vitepress'
+import { onBeforeUnmount, onMounted, ref, watch } from 'vue'
+
+/** 与sw.js中的页面缓存名称一致 */
+const PAGE_CACHE = 'pages'
+
+/**
+ * 注册构建时生成的Service Worker（见 utils/pwa.ts），只在生产环境中注册
+ */
+export const registerServiceWorker = () => {
+  if (import.meta.env.DEV || !('serviceWorker' in navigator)) return
+  navigator.serviceWorker.register(withBase('/sw.js')).catch((error) => console.warn('[pwa]', error))
+}
+
+/**
+ * Service Worker是否已接管当前页面，接管后才能通过请求缓存页面
+ * @returns {boolean}
+ */
+export const isOfflineSupported = () => !!navigator.serviceWorker?.controller
+
+/**
+ * 页面在缓存中的地址，与sw.js中的pageKey一致
+ * @param {string} pathname - 页面路径
+ * @returns {string}
+ */
+const pageKey = (pathname: string) =>
+  location.origin + pathname.replace(/\.html$/, '').replace(/\/index$/, '/')
+
+/**
+ * 收集页面加载所需的代码：HTML中引用的资源，客户端路由切换时加载的页面代码及其静态依赖
+ * VitePress为每个页面生成 xxx.md.[hash].lean.js（首次加载）和 xxx.md.[hash].js（路由切换）两份代码
+ * @param {string} html - 页面HTML
+ * @returns {Promise<void>}
+ */
+const fetchPageAssets = async (html: string) => {
+  const pending = [...html.matchAll(/(?:src|href)="([^"]*\/assets\/[^"]+)"/g)].map((match) => match[1])
+  pending.push(...pending.filter((url) => url.endsWith('.lean.js')).map((url) => url.replace(/\.lean\.js$/, '.js')))
+
+  const fetched = new Set<string>()
+  while (pending.length) {
+    const url = new URL(pending.pop()!, location.href).href
+    if (fetched.has(url)) continue
+    fetched.add(url)
+    const response = await fetch(url)
+    if (!url.endsWith('.js') || !response.ok) continue
+    // 只跟随静态import，按需加载的大型依赖（如mermaid）在使用时再缓存
+    const code = await response.text()
+    for (const [, specifier] of code.matchAll(/(?:from|import)\s*"(\.{1,2}\/[^"]+\.js)"/g)) {
+      pending.push(new URL(specifier, url).href)
+    }
+  }
+}
+
+/**
+ * 下载页面供离线阅读：请求经过Service Worker时写入缓存
+ * @param {string[]} links - 站内链接，如 /react/hooks
+ * @param {boolean} cleanUrls - 站点是否启用cleanUrls，未启用时页面地址以.html结尾
+ * @param {Function} onProgress - 每完成一个页面时调用
+ * @returns {Promise<number>} 下载失败的页面数
+ */
+export const downloadPages = async (links: string[], cleanUrls: boolean, onProgress: (done: number) => void) => {
+  let done = 0
+  let failed = 0
+  // 同时下载4个页面
+  const queue = [...links]
+  const worker = async () => {
+    while (queue.length) {
+      const link = queue.shift()!
+      const url = withBase(cleanUrls || link.endsWith('/') ? link : `${link}.html`)
+      try {
+        const response = await fetch(url)
+        if (!response.ok) throw new Error(`${response.status} ${url}`)
+        await fetchPageAssets(await response.text())
+      } catch (error) {
+        console.warn('[offline]', error)
+        failed++
+      }
+      onProgress(++done)
+    }
+  }
+  await Promise.all(Array.from({ length: 4 }, worker))
+  return failed
+}
+
+/**
+ * 离线时能打开的页面都来自缓存，返回缓存时间，在线时为undefined
+ * 只通过路由切换访问过的页面没有缓存HTML，缓存时间为0
+ */
+export function useCachedCopy() {
+  const route = useRoute()
+  const cachedAt = ref<number>()
+
+  const update = async () => {
+    cachedAt.value = undefined
+    if (navigator.onLine || !('caches' in window)) return
+    const cache = await caches.open(PAGE_CACHE)
+    const response = await cache.match(pageKey(location.pathname)) ?? await caches.match(pageKey(location.pathname))
+    const date = response?.headers.get('date')
+    cachedAt.value = date ? new Date(date).getTime() : 0
+  }
+
+  onMounted(() => {
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+  })
+  watch(() => route.path, update)
+  onBeforeUnmount(() => {
+    window.removeEventListener('online', update)
+    window.removeEventListener('offline', update)
+  })
+
+  return { cachedAt }
+}
@@ -0,0 +1,203 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import type { DefaultTheme, HeadConfig, PageData, SiteConfig } from 'vitepress';
+import type { ReadingStats } from './functions';
+
+/** 封面图配置 */
+export interface OgImageOptions {
+  /** 站点域名，如 https://example.com */
+  hostname: string
+  /** 站点名称，显示在图片左下角 */
+  siteTitle: string
+  /** 站点描述，用于没有标题的页面（如首页） */
+  siteDescription?: string
+}
+
+/** 封面图渲染配置 */
+export interface OgRenderOptions {
+  /** 字体文件路径（ttf/otf），CI环境没有中文字体，需要指定 */
+  fontFiles?: string[]
+  /** 字体名称 */
+  fontFamily?: string
+}
+
+/** 封面图中的文字 */
+type OgImageData = Omit<Parameters<typeof renderOgSvg>[0], 'fontFamily'>;
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+/** transformHead中收集的待生成封面，键为相对于outDir的图片路径 */
+const pendingImages = new Map<string, OgImageData>();
+
+/**
+ * 转义SVG文本中的特殊字符
+ * @param {string} value - 原始文本
+ * @returns {string} 转义后的文本
+ */
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * 按估算宽度将标题拆分为多行，中文按1个字宽、其他字符按0.6个字宽计算
+ * @param {string} text - 标题
+ * @param {number} maxEm - 每行最多容纳的字宽
+ * @param {number} maxLines - 最多行数，超出部分以省略号结尾
+ * @returns {string[]} 拆分后的行
+ */
+const wrapText = (text: string, maxEm: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = '';
+  let width = 0;
+  for (const char of text) {
+    const charWidth = /[\u2E80-\uFFEF]/.test(char) ? 1 : 0.6;
+    if (width + charWidth > maxEm) {
+      lines.push(line);
+      line = '';
+      width = 0;
+    }
+    line += char;
+    width += charWidth;
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, -1)}…`;
+  }
+  return lines.map((item) => item.trim());
+};
+
+/**
+ * 生成封面图的SVG
+ * @param {Object} data - 封面内容
+ * @returns {string} 1200×630的SVG
+ */
+export const renderOgSvg = ({ title, section, readingTime, siteTitle, fontFamily }: {
+  title: string
+  section?: string
+  readingTime?: number
+  siteTitle: string
+  fontFamily: string
+}) => {
+  const lines = wrapText(title, 15, 3);
+  // 标题在卡片中垂直居中
+  const titleY = 330 - ((lines.length - 1) * 80) / 2;
+
+  return `<svg width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0%" stop-color="#646cff"/>
+      <stop offset="100%" stop-color="#bd34fe"/>
+    </linearGradient>
+  </defs>
+  <rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>
+  <rect x="40" y="40" width="${WIDTH - 80}" height="${HEIGHT - 80}" rx="24" fill="#1b1b1f" fill-opacity="0.92"/>
+  <g font-family="${escapeXml(fontFamily)}">
+    ${section ? `<text x="100" y="130" font-size="32" fill="#a8b1ff">${escapeXml(section)}</text>` : ''}
+    ${lines.map((line, index) => `<text x="100" y="${titleY + index * 80}" font-size="64" font-weight="bold" fill="#ffffff">${escapeXml(line)}</text>`).join('\n    ')}
+    <text x="100" y="540" font-size="28" fill="#dfdfd6">${escapeXml(siteTitle)}</text>
+    ${readingTime ? `<text x="${WIDTH - 100}" y="540" font-size="28" fill="#98989f" text-anchor="end">阅读时长 ${readingTime} 分钟</text>` : ''}
+  </g>
+</svg>`;
+};
+
+/**
+ * 将页面路径转换为站点上的地址
+ * @param {string} relativePath - 页面路径（pageData.relativePath）
+ * @param {boolean} cleanUrls - 是否开启cleanUrls
+ * @returns {string} 不以/开头的页面地址
+ */
+const toPageUrl = (relativePath: string, cleanUrls: boolean) =>
+  relativePath.replace(/(^|\/)index\.md$/, '$1').replace(/\.md$/, cleanUrls ? '' : '.html');
+
+/**
+ * 根据导航栏生成目录名称映射，如 /react/ => React
+ * @param {DefaultTheme.NavItem[]} nav - themeConfig.nav
+ * @returns {Record<string, string>} 目录与名称的映射
+ */
+export const getSectionNames = (nav: DefaultTheme.NavItem[] = []) => {
+  const names: Record<string, string> = {};
+  const walk = (items: (DefaultTheme.NavItem | DefaultTheme.NavItemChildren)[] = []) => items.forEach((item) => {
+    if ('link' in item) names[item.link] = item.text;
+    else if ('items' in item) walk(item.items);
+  });
+  walk(nav);
+  return names;
+};
+
+/**
+ * 在transformHead中调用：返回封面图相关的meta标签
+ * 默认为每个页面生成PNG封面（在buildEnd中调用generateOgImages写入 outDir/og/），frontmatter中设置cover时使用指定的封面
+ * @param {Object} ctx - transformHead上下文
+ * @param {OgImageOptions} options - 封面图配置
+ * @returns {HeadConfig[]} og:image、twitter:image、og:url、article:modified_time
+ */
+export const getOgHead = (
+  { pageData, siteConfig }: { pageData: PageData; siteConfig: SiteConfig },
+  options: OgImageOptions
+): HeadConfig[] => {
+  const siteUrl = `${options.hostname.replace(/\/$/, '')}${siteConfig.site.base}`;
+  const { frontmatter, relativePath, filePath, lastUpdated } = pageData;
+  const head: HeadConfig[] = [
+    ['meta', { property: 'og:url', content: `${siteUrl}${toPageUrl(relativePath, !!siteConfig.cleanUrls)}` }],
+  ];
+
+  if (frontmatter.cover) {
+    // 相对地址补全为绝对地址，很多爬虫不识别相对地址
+    const cover = /^https?:\/\//.test(frontmatter.cover)
+      ? frontmatter.cover
+      : `${siteUrl}${frontmatter.cover.replace(/^\//, '')}`;
+    head.push(
+      ['meta', { property: 'og:image', content: cover }],
+      ['meta', { name: 'twitter:image', content: cover }],
+    );
+  } else {
+    const section = filePath.includes('/') ? filePath.split('/')[0] : '';
+    const imagePath = `og/${relativePath.replace(/\.md$/, '')}.png`;
+    pendingImages.set(imagePath, {
+      title: pageData.title || options.siteDescription || options.siteTitle,
+      section: section && (getSectionNames(siteConfig.site.themeConfig.nav)[`/${section}/`] ?? section),
+      readingTime: (pageData as PageData & { readingStats?: ReadingStats }).readingStats?.readingTime,
+      siteTitle: options.siteTitle
+    });
+
+    head.push(
+      ['meta', { property: 'og:image', content: `${siteUrl}${imagePath}` }],
+      ['meta', { property: 'og:image:width', content: String(WIDTH) }],
+      ['meta', { property: 'og:image:height', content: String(HEIGHT) }],
+      ['meta', { name: 'twitter:image', content: `${siteUrl}${imagePath}` }],
+    );
+  }
+
+  if (lastUpdated) {
+    head.push(['meta', { property: 'article:modified_time', content: new Date(lastUpdated).toISOString() }]);
+  }
+  return head;
+};
+
+/**
+ * 在buildEnd中调用：将transformHead中收集的页面封面渲染为PNG，写入 outDir/og/
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {OgRenderOptions} options - 封面图渲染配置
+ */
+export const generateOgImages = async (siteConfig: SiteConfig, options: OgRenderOptions = {}) => {
+  const fontFamily = options.fontFamily ?? 'Noto Sans SC, PingFang SC, Microsoft YaHei, sans-serif';
+  // 原生依赖只在构建时加载
+  const { Resvg } = await import('@resvg/resvg-js');
+  for (const [imagePath, data] of pendingImages) {
+    const png = new Resvg(renderOgSvg({ ...data, fontFamily }), {
+      fitTo: { mode: 'width', value: WIDTH },
+      font: {
+        loadSystemFonts: !options.fontFiles?.length,
+        fontFiles: options.fontFiles ?? [],
+        defaultFontFamily: fontFamily.split(',')[0].trim()
+      }
+    }).render().asPng();
+    const output = path.join(siteConfig.outDir, imagePath);
+    await fs.mkdir(path.dirname(output), { recursive: true });
+    await fs.writeFile(output, png);
+  }
+  siteConfig.logger.info(`[og] images generated for ${pendingImages.size} pages`);
+  pendingImages.clear();
+};
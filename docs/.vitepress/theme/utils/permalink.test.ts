@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { assertUniquePermalinks, DuplicatePermalinkError, type PostMeta } from './permalink';
+
+/** 只包含permalink的文章信息 */
+const post = (permalink: string) => ({ permalink }) as PostMeta;
+
+describe('assertUniquePermalinks', () => {
+  it('permalink唯一时不抛出', () => {
+    expect(() => assertUniquePermalinks({
+      'react/fiber.md': post('/posts/a'),
+      'vue/diff-algorithm.md': post('/posts/b'),
+    })).not.toThrow();
+  });
+
+  it('列出每个重复的permalink及其文件', () => {
+    let error: unknown;
+    try {
+      assertUniquePermalinks({
+        'react/fiber.md': post('/posts/a'),
+        'react/hooks.md': post('/posts/a'),
+        'vue/diff-algorithm.md': post('/posts/b'),
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DuplicatePermalinkError);
+    expect((error as DuplicatePermalinkError).duplicates).toEqual({
+      '/posts/a': ['react/fiber.md', 'react/hooks.md'],
+    });
+    expect((error as Error).message).toContain('/posts/a: react/fiber.md, react/hooks.md');
+  });
+});
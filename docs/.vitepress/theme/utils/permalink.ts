@@ -3,23 +3,33 @@ import matter from 'gray-matter'; // 用于解析和操作Markdown文件的front
 import fg from 'fast-glob';      // 快速文件系统匹配库
 import fs from 'fs/promises';    // Node.js文件系统Promise API
 import path from 'path';         // 路径处理库
+import { createHash } from 'crypto'; // 用于生成稳定的permalink
+import { execFile } from 'child_process'; // 用于读取git提交时间
+import { promisify } from 'util';
+import type { DefaultTheme, PageData } from 'vitepress';
+import { getReadingStats } from './functions';
+import { isVisible, toTimestamp, unpublishedLabel } from './frontmatter';
+import type { PostFrontmatter, PostSummary } from './types';
+
+/** 不参与侧边栏和文章扫描的目录：静态资源、生成的索引页和翻译 */
+export const ignoredDirs = ['public', 'tags', 'en', 'review'];
+
+/** 文章的permalink及上下页信息 */
+export interface PostMeta {
+  permalink: string
+  title: string
+  prev?: { text: string; link: string }
+  next?: { text: string; link: string }
+}
 
 /**
- * 生成指定长度的随机字符串
+ * 根据输入生成指定长度的哈希字符串，相同输入始终得到相同结果
+ * @param {string} input - 参与哈希计算的内容，如文件路径
  * @param {number} length - 需要生成的字符串长度
- * @returns {string} 由0-9和a-f组成的随机字符串
+ * @returns {string} 由0-9和a-f组成的哈希字符串
  */
-export const generateString = (length: number) => {
-  const charset = '0123456789abcdef'; // 可用的字符集
-  let randomCode = ''; // 初始化结果字符串
-
-  // 循环生成指定长度的随机字符串
-  for (let i = 0; i < length; i++) {
-    const randomIndex = Math.floor(Math.random() * charset.length); // 随机选取字符索引
-    randomCode += charset[randomIndex]; // 将随机字符添加到结果中
-  }
-
-  return randomCode;
+export const generateHash = (input: string, length: number) => {
+  return createHash('sha1').update(input).digest('hex').slice(0, length);
 };
 
 /**
@@ -27,25 +37,65 @@ export const generateString = (length: number) => {
  * @param {string} content - Markdown内容
  * @returns {string} 提取的标题，如果没有找到则返回空字符串
  */
-const extractTitleFromContent = (content: string): string => {
+export const extractTitleFromContent = (content: string): string => {
   // 匹配一级标题的正则表达式 (支持#前后可能有空格的情况)
   const h1Regex = /^\s*#\s+(.+?)\s*$/m;
   const match = content.match(h1Regex);
   return match ? match[1].trim() : '';
 };
 
+/**
+ * 将源文件路径转换为页面链接，存在重写规则时使用重写后的路径
+ * @param {string} relativePath - 相对于baseDir的文件路径
+ * @param {Record<string, string>} rewrites - usePosts生成的重写规则
+ * @returns {string} 以/开头的页面链接，index页面以/结尾
+ */
+export const toLink = (relativePath: string, rewrites: Record<string, string>): string => {
+  const target = rewrites[relativePath] ?? relativePath;
+  return `/${target.replace(/(^|\/)index\.md$/, '$1').replace(/\.md$/, '')}`;
+};
+
+/**
+ * 读取文件最后一次git提交的时间
+ * @param {string} file - 文件路径
+ * @returns {Promise<number>} 毫秒时间戳，未提交的文件返回0
+ */
+export const getGitTimestamp = async (file: string): Promise<number> => {
+  try {
+    const { stdout } = await promisify(execFile)('git', ['log', '-1', '--pretty=%at', file]);
+    return Number(stdout.trim()) * 1000;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * 将frontmatter中的字符串或数组统一为字符串数组
+ * @param {unknown} value - frontmatter字段值
+ * @returns {string[]} 去除空值后的字符串数组
+ */
+const toList = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : value == null ? [] : [value];
+  return list.map((item) => String(item).trim()).filter(Boolean);
+};
+
 /**
  * 处理文章Markdown文件，生成永久链接和重写规则
+ * 默认只在内存中计算permalink和上下页，通过injectPostData注入页面数据，不修改源文件
  * @param {Object} options - 配置选项
  * @param {string} options.srcDir - 源目录，默认为'permalink'
  * @param {string} options.baseDir - 基础目录，默认为'docs'
- * @returns {Promise<Object>} 包含重写规则的对象
+ * @param {boolean} options.write - 是否将生成的frontmatter写回源文件，默认为false
+ * @returns {Promise<Object>} 包含重写规则和文章信息的对象
  */
 export const usePosts = async ({
   srcDir = 'permalink',  // 默认源目录为'permalink'
-  baseDir = 'docs'   // 默认基础目录为'docs'
+  baseDir = 'docs',  // 默认基础目录为'docs'
+  write = false   // 默认不写回源文件
 } = {}) => {
   const rewrites: Record<string, string> = {}; // 初始化重写规则对象
+  // 以相对于baseDir的路径为键，与pageData.filePath一致
+  const posts: Record<string, PostMeta> = {};
 
   try {
     // 使用fast-glob查找所有匹配的Markdown文件，但忽略index.md文件
@@ -53,75 +103,258 @@ export const usePosts = async ({
       ignore: ['**/index.md']  // 忽略所有index.md文件
     })).sort(); // 按字母顺序排序
 
-    // 创建一个映射，存储所有文件的permalink和title
-    const postsMap: Record<string, { permalink: string; title: string }> = {};
-
-    // 第一遍：收集所有文件的基本信息
-    await Promise.all(
-      paths.map(async (postPath) => {
-        const { data, content } = matter.read(postPath);
+    const files = paths.flatMap((postPath) => {
+      const { data, content } = matter.read(postPath);
+      // 草稿和定时发布的文章不参与生产构建，也不出现在上下页中
+      if (!isVisible(data)) return [];
+      const relativePath = postPath.replace(`${baseDir}/`, '');
 
-        // 提取或设置title
-        if (!data.title) {
-          const extractedTitle = extractTitleFromContent(content);
-          if (extractedTitle) {
-            data.title = extractedTitle;
-          }
+      // 提取或设置title
+      if (!data.title) {
+        const extractedTitle = extractTitleFromContent(content);
+        if (extractedTitle) {
+          data.title = extractedTitle;
         }
+      }
 
-        // 生成或使用现有的permalink
-        if (!data.permalink) {
-          data.permalink = `/${srcDir}/${generateString(6)}`;
-        }
+      // 未设置permalink时根据文件路径生成，保证每次构建结果一致
+      if (!data.permalink) {
+        data.permalink = `/${srcDir}/${generateHash(relativePath, 6)}`;
+      }
+
+      posts[relativePath] = {
+        permalink: data.permalink,
+        title: data.title || path.basename(postPath, '.md')
+      };
+      return [{ postPath, relativePath, data, content }];
+    });
+
+    // permalink重复会导致页面互相覆盖，直接中断构建
+    assertUniquePermalinks(posts);
+
+    // 设置prev/next导航
+    files.forEach(({ relativePath, data }, index) => {
+      const post = posts[relativePath];
+      const prevPost = index > 0 ? posts[files[index - 1].relativePath] : null;
+      const nextPost = index < files.length - 1 ? posts[files[index + 1].relativePath] : null;
+
+      if (prevPost && !data.prev) {
+        data.prev = post.prev = { text: prevPost.title, link: prevPost.permalink };
+      }
+      if (nextPost && !data.next) {
+        data.next = post.next = { text: nextPost.title, link: nextPost.permalink };
+      }
+
+      // 计算相对路径并添加到重写规则
+      rewrites[relativePath.replace(/[+()]/g, '\\$&')] =
+        `${post.permalink}.md`.slice(1).replace(/[+()]/g, '\\$&');
+    });
+
+    // 兼容旧行为：将更新后的frontmatter写回文件
+    if (write) {
+      await Promise.all(
+        files.map(({ postPath, data, content }) =>
+          fs.writeFile(postPath, matter.stringify(content, data), 'utf8')
+        )
+      );
+    }
+  } catch (e) {
+    if (e instanceof DuplicatePermalinkError) throw e;
+    console.error(e); // 捕获并打印错误
+  }
+
+  return { rewrites, posts }; // 即使出错也返回可能部分完成的结果
+};
 
-        // 存储到映射中
-        postsMap[postPath] = {
-          permalink: data.permalink,
-          title: data.title || path.basename(postPath, '.md')
-        };
-      })
+/** permalink重复时抛出，中断构建 */
+export class DuplicatePermalinkError extends Error {
+  duplicates: Record<string, string[]>;
+
+  constructor(duplicates: Record<string, string[]>) {
+    super(
+      'Duplicate permalinks found:\n' +
+      Object.entries(duplicates)
+        .map(([permalink, files]) => `  ${permalink}: ${files.join(', ')}`)
+        .join('\n')
     );
+    this.name = 'DuplicatePermalinkError';
+    this.duplicates = duplicates;
+  }
+}
 
-    // 第二遍：设置prev/next导航
-    await Promise.all(
-      paths.map(async (postPath, index) => {
-        const { data, content } = matter.read(postPath);
-        const prevPost = index > 0 ? postsMap[paths[index - 1]] : null;
-        const nextPost = index < paths.length - 1 ? postsMap[paths[index + 1]] : null;
-
-        // 设置prev导航
-        if (prevPost && !data.prev) {
-          data.prev = {
-            text: prevPost.title,
-            link: prevPost.permalink
-          };
-        }
+/**
+ * 检查permalink是否唯一
+ * @param {Record<string, PostMeta>} posts - usePosts生成的文章信息
+ * @throws {DuplicatePermalinkError} 存在重复的permalink时抛出
+ */
+export const assertUniquePermalinks = (posts: Record<string, PostMeta>) => {
+  const owners: Record<string, string[]> = {};
+  for (const [file, { permalink }] of Object.entries(posts)) {
+    (owners[permalink] ??= []).push(file);
+  }
+  const duplicates = Object.fromEntries(
+    Object.entries(owners).filter(([, files]) => files.length > 1)
+  );
+  if (Object.keys(duplicates).length) {
+    throw new DuplicatePermalinkError(duplicates);
+  }
+};
+
+/**
+ * 在transformPageData中调用，将usePosts计算的信息注入页面数据
+ * 已在frontmatter中手动设置的字段优先
+ * @param {PageData} pageData - VitePress页面数据
+ * @param {Record<string, PostMeta>} posts - usePosts生成的文章信息
+ */
+export const injectPostData = (pageData: PageData, posts: Record<string, PostMeta>) => {
+  const frontmatter = pageData.frontmatter as PostFrontmatter;
+  // frontmatter中的updated优先于git提交时间
+  if (frontmatter.updated) pageData.lastUpdated = toTimestamp(frontmatter.updated);
+
+  const post = posts[pageData.filePath];
+  if (!post) return;
+
+  frontmatter.title ??= post.title;
+  frontmatter.permalink ??= post.permalink;
+  if (post.prev) frontmatter.prev ??= post.prev;
+  if (post.next) frontmatter.next ??= post.next;
+};
+
+/**
+ * 在transformPageData中调用，根据markdown源码统计页面的阅读数据
+ * @param {PageData} pageData - VitePress页面数据
+ * @param {string} srcDir - 源目录的绝对路径（siteConfig.srcDir）
+ * @returns {Promise<ReadingStats | undefined>} 阅读数据，虚拟页面返回undefined
+ */
+export const getPageReadingStats = async (pageData: PageData, srcDir: string) => {
+  if (!pageData.filePath) return;
+  const { content } = matter(await fs.readFile(path.join(srcDir, pageData.filePath), 'utf8'));
+  return getReadingStats(content);
+};
+
+/**
+ * 扫描顶级目录，根据frontmatter生成侧边栏
+ * - sidebar_group: 所属分组，未设置时作为顶层链接
+ * - order: 排序权重，分组按组内最小的order排序
+ * - sidebar_label: 侧边栏显示文本，默认依次回退到title和一级标题
+ * - sidebar: false 不在侧边栏中显示
+ * - draft / publishAt: 未发布的文章只在开发环境中显示，并标记为草稿或定时发布
+ * @param {Object} options - 配置选项
+ * @param {string} options.baseDir - 基础目录，默认为'docs'
+ * @param {Record<string, string>} options.rewrites - usePosts生成的重写规则，用于将链接指向重写后的路径
+ * @param {DefaultTheme.SidebarMulti} options.manual - 需要手动维护的侧边栏，对应目录不再自动生成
+ * @returns {Promise<Object>} 包含侧边栏配置的对象
+ */
+export const useSidebar = async ({
+  baseDir = 'docs',
+  rewrites = {} as Record<string, string>,
+  manual = {} as DefaultTheme.SidebarMulti
+} = {}) => {
+  const sidebar: DefaultTheme.SidebarMulti = { ...manual };
 
-        // 设置next导航
-        if (nextPost && !data.next) {
-          data.next = {
-            text: nextPost.title,
-            link: nextPost.permalink
+  try {
+    // 只扫描一级目录，忽略public等静态资源目录
+    const sections = (await fg('*', {
+      cwd: baseDir,
+      onlyDirectories: true,
+      ignore: ignoredDirs
+    })).sort();
+
+    for (const section of sections) {
+      const base = `/${section}/`;
+      if (base in manual) continue; // 手动维护的目录保持原样
+
+      const paths = (await fg(`${baseDir}/${section}/**/*.md`)).sort();
+      const entries = paths
+        .map((postPath) => {
+          const { data, content } = matter.read(postPath);
+          if (data.sidebar === false || !isVisible(data)) return null;
+
+          const text = data.sidebar_label || data.title || extractTitleFromContent(content) || path.basename(postPath, '.md');
+          const label = unpublishedLabel(data);
+          return {
+            text: label ? `${text}（${label}）` : text,
+            link: toLink(postPath.replace(`${baseDir}/`, ''), rewrites),
+            group: data.sidebar_group as string | undefined,
+            order: typeof data.order === 'number' ? data.order : Number.POSITIVE_INFINITY
           };
+        })
+        .filter((entry) => entry !== null)
+        // 按order排序，order相同时保持文件名顺序
+        .sort((a, b) => a.order - b.order);
+
+      const items: DefaultTheme.SidebarItem[] = [];
+      const groups: Record<string, DefaultTheme.SidebarItem[]> = {};
+      for (const { text, link, group } of entries) {
+        if (!group) {
+          items.push({ text, link });
+          continue;
         }
+        // 分组在其第一篇文章的位置出现
+        if (!groups[group]) {
+          groups[group] = [];
+          items.push({ text: group, collapsed: false, items: groups[group] });
+        }
+        groups[group].push({ text, link });
+      }
 
-        // 将更新后的frontmatter写回文件
-        await fs.writeFile(
-          postPath,
-          matter.stringify(content, data),
-          'utf8'
-        );
-
-        // 计算相对路径并添加到重写规则
-        const relativePath = postPath.replace(`${baseDir}/`, '');
-        rewrites[relativePath.replace(/[+()]/g, '\\$&')] =
-          `${data.permalink}.md`.slice(1).replace(/[+()]/g, '\\$&');
-      })
-    );
+      if (items.length) sidebar[base] = items;
+    }
 
-    return { rewrites }; // 返回生成的重写规则
+    return { sidebar };
   } catch (e) {
-    console.error(e); // 捕获并打印错误
-    return { rewrites }; // 即使出错也返回可能部分完成的重写规则
+    console.error(e);
+    return { sidebar };
   }
 };
+
+/**
+ * 扫描各顶级目录下的文章，收集标签、分类、日期和阅读时间
+ * - tags: 标签，字符串或数组
+ * - categories: 分类，未设置时使用所在的顶级目录
+ * - date: 发布日期，未设置时使用最后一次git提交时间
+ * - updated: 最后更新日期，未设置时使用最后一次git提交时间
+ * - description: 文章描述
+ * @param {Object} options - 配置选项
+ * @param {string} options.baseDir - 基础目录，默认为'docs'
+ * @param {Record<string, string>} options.rewrites - usePosts生成的重写规则
+ * 草稿和定时发布的文章只在开发环境中返回
+ * @returns {Promise<PostSummary[]>} 按日期倒序排列的文章列表
+ */
+export const readPosts = async ({
+  baseDir = 'docs',
+  rewrites = {} as Record<string, string>
+} = {}): Promise<PostSummary[]> => {
+  const paths = (await fg(`${baseDir}/*/**/*.md`, {
+    ignore: ignoredDirs.map((dir) => `${baseDir}/${dir}/**`)
+  })).sort();
+
+  const files = paths
+    .map((postPath) => ({ postPath, ...matter.read(postPath) }))
+    .filter(({ data }) => isVisible(data));
+
+  const posts = await Promise.all(
+    files.map(async ({ postPath, data, content }) => {
+      const relativePath = postPath.replace(`${baseDir}/`, '');
+      const section = relativePath.split('/')[0];
+      const lastUpdated = data.updated ? toTimestamp(data.updated) : await getGitTimestamp(postPath);
+      const date = data.date ? toTimestamp(data.date) : lastUpdated;
+
+      return {
+        title: data.title || extractTitleFromContent(content) || path.basename(postPath, '.md'),
+        link: toLink(relativePath, rewrites),
+        relativePath,
+        description: data.description,
+        date,
+        lastUpdated,
+        readingTime: getReadingStats(content).readingTime,
+        tags: toList(data.tags),
+        categories: data.categories ? toList(data.categories) : [section],
+        series: data.series,
+        order: data.order
+      };
+    })
+  );
+
+  return posts.sort((a, b) => b.date - a.date);
+};
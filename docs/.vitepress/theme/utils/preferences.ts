@@ -0,0 +1,133 @@
+import { onBeforeUnmount, onMounted, reactive, ref, watch } from 'vue'
+
+/** 可以单独开关的动画效果 */
+export type EffectName = 'clickEffect' | 'rainbow' | 'progressBar' | 'themeTransition'
+
+export const effectNames: EffectName[] = ['clickEffect', 'rainbow', 'progressBar', 'themeTransition']
+
+/** 正文宽度 */
+export type ContentWidth = 'default' | 'wide' | 'full'
+
+/** 保存在localStorage中的阅读设置，未设置的项使用默认值 */
+export interface ReaderPreferences {
+  /** 动画效果开关，未设置时跟随系统的“减少动态效果”设置 */
+  effects: Partial<Record<EffectName, boolean>>
+  /** 正文字号（px），默认16 */
+  fontSize?: number
+  /** 正文行高（倍数），默认为28px */
+  lineHeight?: number
+  /** 正文宽度 */
+  contentWidth?: ContentWidth
+  /** 代码块自动换行 */
+  codeWrap?: boolean
+}
+
+const STORAGE_KEY = 'reader-preferences'
+
+const read = (): ReaderPreferences => {
+  try {
+    return { effects: {}, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') }
+  } catch {
+    return { effects: {} }
+  }
+}
+
+/** 阅读设置，挂载后才从localStorage读取，避免与服务端渲染结果不一致 */
+export const preferences = reactive<ReaderPreferences>({ effects: {} })
+
+/** 系统是否开启了减少动态效果 */
+const reducedMotion = ref(false)
+/** 设置读取前不启用任何效果 */
+const ready = ref(false)
+
+/**
+ * 效果是否开启：读者未设置时，系统开启了减少动态效果则关闭
+ * @param {EffectName} name - 效果名称
+ * @returns {boolean}
+ */
+export const isEffectEnabled = (name: EffectName) =>
+  ready.value && (preferences.effects[name] ?? !reducedMotion.value)
+
+/**
+ * 切换效果开关
+ * @param {EffectName} name - 效果名称
+ */
+export const toggleEffect = (name: EffectName) => {
+  preferences.effects[name] = !isEffectEnabled(name)
+}
+
+/** 恢复默认设置 */
+export const resetPreferences = () => {
+  preferences.effects = {}
+  delete preferences.fontSize
+  delete preferences.lineHeight
+  delete preferences.contentWidth
+  delete preferences.codeWrap
+}
+
+/**
+ * 将排版设置应用到<html>上，样式见 style/reader.css
+ * @param {ReaderPreferences} value - 阅读设置
+ */
+const applyPreferences = ({ fontSize, lineHeight, contentWidth, codeWrap }: ReaderPreferences) => {
+  const root = document.documentElement
+  if (fontSize) root.style.setProperty('--reader-font-size', `${fontSize}px`)
+  else root.style.removeProperty('--reader-font-size')
+  if (lineHeight) root.style.setProperty('--reader-line-height', String(lineHeight))
+  else root.style.removeProperty('--reader-line-height')
+  if (contentWidth && contentWidth !== 'default') root.dataset.contentWidth = contentWidth
+  else delete root.dataset.contentWidth
+  root.classList.toggle('code-wrap', !!codeWrap)
+}
+
+/**
+ * 内联在<head>中的脚本，在首次绘制前应用排版设置，避免页面闪烁
+ * 与applyPreferences的逻辑保持一致；动画效果在挂载后才启用，不需要提前处理
+ */
+export const preferencesScript = `(() => {
+  try {
+    const p = JSON.parse(localStorage.getItem('${STORAGE_KEY}') || '{}')
+    const root = document.documentElement
+    if (p.fontSize) root.style.setProperty('--reader-font-size', p.fontSize + 'px')
+    if (p.lineHeight) root.style.setProperty('--reader-line-height', String(p.lineHeight))
+    if (p.contentWidth && p.contentWidth !== 'default') root.dataset.contentWidth = p.contentWidth
+    if (p.codeWrap) root.classList.add('code-wrap')
+  } catch {}
+})()`
+
+/**
+ * 在主题的setup中调用：读取和保存阅读设置，跟随系统的减少动态效果设置
+ */
+export function useReaderPreferences() {
+  let media: MediaQueryList | undefined
+  const onMotionChange = () => {
+    reducedMotion.value = !!media?.matches
+  }
+
+  const load = () => {
+    const { effects, fontSize, lineHeight, contentWidth, codeWrap } = read()
+    Object.assign(preferences, { effects, fontSize, lineHeight, contentWidth, codeWrap })
+  }
+  // 其他标签页修改设置时同步
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) load()
+  }
+
+  onMounted(() => {
+    load()
+    media = window.matchMedia('(prefers-reduced-motion: reduce)')
+    onMotionChange()
+    media.addEventListener('change', onMotionChange)
+    window.addEventListener('storage', onStorage)
+    ready.value = true
+  })
+  watch(preferences, (value) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(value))
+    applyPreferences(value)
+  }, { deep: true })
+
+  onBeforeUnmount(() => {
+    media?.removeEventListener('change', onMotionChange)
+    window.removeEventListener('storage', onStorage)
+  })
+}
@@ -0,0 +1,117 @@
+import { useData, useRoute, withBase } from 'vitepress'
+import { onBeforeUnmount, onMounted, reactive, ref, watch, watchEffect } from 'vue'
+
+/** 最近阅读的文章 */
+export interface LastRead {
+  link: string
+  title: string
+  /** 滚动位置 */
+  scroll: number
+  time: number
+}
+
+/** 保存在localStorage中的阅读进度 */
+export interface ProgressState {
+  /** 已读完的文章链接及标记时间 */
+  done: Record<string, number>
+  last?: LastRead
+}
+
+const STORAGE_KEY = 'reading-progress'
+
+const read = (): ProgressState => {
+  try {
+    return { done: {}, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') }
+  } catch {
+    return { done: {} }
+  }
+}
+
+/** 阅读进度，挂载后才从localStorage读取，避免与服务端渲染结果不一致 */
+export const progress = reactive<ProgressState>({ done: {} })
+
+/**
+ * 将页面路径（pageData.relativePath）转换为与posts.data.ts一致的文章链接
+ * @param {string} relativePath - 页面路径
+ * @returns {string} 如 /react/fiber
+ */
+export const toPostLink = (relativePath: string) =>
+  `/${relativePath.replace(/(^|\/)index\.md$/, '$1').replace(/\.md$/, '')}`
+
+/**
+ * 标记或取消标记文章已读
+ * @param {string} link - 文章链接
+ */
+export const toggleDone = (link: string) => {
+  if (progress.done[link]) delete progress.done[link]
+  else progress.done[link] = Date.now()
+}
+
+/**
+ * 侧边栏中已读文章显示对勾，通过生成样式实现，不依赖侧边栏的DOM结构变化
+ * @returns {string} CSS
+ */
+const checkmarkStyle = () => {
+  const selectors = Object.keys(progress.done).flatMap((link) => {
+    const href = withBase(link)
+    return [`.VPSidebar a[href="${href}"] .text::after`, `.VPSidebar a[href="${href}.html"] .text::after`]
+  })
+  if (!selectors.length) return ''
+  return `${selectors.join(',\n')} {\n  content: '✓';\n  margin-left: 6px;\n  color: var(--vp-c-brand-1);\n}`
+}
+
+/**
+ * 在主题的setup中调用：读取和保存阅读进度，记录当前文章的滚动位置，更新侧边栏对勾
+ */
+export function useReadingProgress() {
+  const { page, frontmatter } = useData()
+  const route = useRoute()
+
+  // 记录最近阅读的文章及滚动位置，首页等非文章页面不记录
+  const isArticle = () =>
+    !page.value.isNotFound && frontmatter.value.layout !== 'home' && !/(^|\/)index\.md$/.test(page.value.relativePath)
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const saveScroll = () => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      if (!isArticle()) return
+      progress.last = {
+        link: toPostLink(page.value.relativePath),
+        title: page.value.title,
+        scroll: Math.round(window.scrollY),
+        time: Date.now()
+      }
+    }, 300)
+  }
+
+  const load = () => {
+    const state = read()
+    progress.done = state.done
+    progress.last = state.last
+  }
+  // 其他标签页修改进度时同步
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) load()
+  }
+
+  const style = ref<HTMLStyleElement>()
+  onMounted(() => {
+    load()
+    window.addEventListener('storage', onStorage)
+    window.addEventListener('scroll', saveScroll, { passive: true })
+    style.value = document.createElement('style')
+    document.head.appendChild(style.value)
+    saveScroll()
+  })
+  watch(progress, (value) => localStorage.setItem(STORAGE_KEY, JSON.stringify(value)), { deep: true })
+  watchEffect(() => {
+    if (style.value) style.value.textContent = checkmarkStyle()
+  })
+  watch(() => route.path, saveScroll)
+
+  onBeforeUnmount(() => {
+    window.removeEventListener('storage', onStorage)
+    window.removeEventListener('scroll', saveScroll)
+    style.value?.remove()
+  })
+}
@@ -0,0 +1,256 @@
+// 导入必要的库
+import fs from 'fs/promises';    // Node.js文件系统Promise API
+import path from 'path';         // 路径处理库
+import fg from 'fast-glob';      // 快速文件系统匹配库
+import { createHash } from 'crypto'; // 用于生成缓存版本号
+import type { HeadConfig, SiteConfig } from 'vitepress';
+
+/** PWA配置 */
+export interface PwaOptions {
+  /** 应用名称 */
+  name: string
+  /** 主屏幕上显示的短名称 */
+  shortName: string
+  description: string
+  /** 主题色，与head中的theme-color一致 */
+  themeColor: string
+  /** 离线页面的背景色 */
+  backgroundColor?: string
+  /** 需要缓存的第三方CDN域名，如评论脚本和图片所在的jsDelivr */
+  cdnHosts?: string[]
+}
+
+/** 图标尺寸，192和512是安装到主屏幕所需的最小集合 */
+const ICON_SIZES = [192, 512];
+
+/** 运行时缓存最多保留的条目数，超出时先删除最早缓存的；pages足够容纳全站页面，离线下载的专题不会被挤出 */
+const CACHE_LIMITS = { pages: 300, assets: 500, static: 200 };
+
+/**
+ * 预缓存的应用外壳：首页、离线页面、入口脚本、框架和主题代码、样式及正文字体
+ * 页面代码和其他按需加载的chunk在访问时缓存
+ */
+const SHELL_PATTERNS = [
+  'index.html',
+  'offline.html',
+  'manifest.webmanifest',
+  'pwa-*.png',
+  'assets/app.*.js',
+  'assets/index.md.*.js',
+  'assets/chunks/framework.*.js',
+  'assets/chunks/theme.*.js',
+  'assets/style.*.css',
+  'assets/inter-roman-latin.*.woff2',
+];
+
+/**
+ * 生成图标SVG：主题色圆角方块上的笔记本，不使用文字以免依赖字体
+ * @param {number} size - 图标尺寸
+ * @param {string} color - 背景色
+ * @returns {string} SVG
+ */
+const renderIconSvg = (size: number, color: string) => `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 100 100">
+  <rect width="100" height="100" rx="22" fill="${color}"/>
+  <rect x="28" y="20" width="44" height="60" rx="6" fill="#fff"/>
+  <rect x="24" y="30" width="10" height="4" rx="2" fill="#fff" stroke="${color}" stroke-width="1.5"/>
+  <rect x="24" y="48" width="10" height="4" rx="2" fill="#fff" stroke="${color}" stroke-width="1.5"/>
+  <rect x="24" y="66" width="10" height="4" rx="2" fill="#fff" stroke="${color}" stroke-width="1.5"/>
+  <path d="M42 36h22M42 46h22M42 56h14" stroke="${color}" stroke-width="4" stroke-linecap="round"/>
+</svg>`;
+
+/**
+ * 离线页面，无法连接网络且页面未缓存时显示
+ * 独立的静态页面，不经过VitePress渲染，避免客户端路由按当前地址加载页面代码
+ * @param {PwaOptions} options - PWA配置
+ * @param {string} base - 站点base
+ * @returns {string} HTML
+ */
+const renderOfflinePage = ({ name, themeColor, backgroundColor = '#ffffff' }: PwaOptions, base: string) => `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>离线 | ${name}</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: ${backgroundColor}; color: #3c3c43; text-align: center; }
+    main { padding: 24px; max-width: 420px; }
+    h1 { font-size: 22px; }
+    p { line-height: 1.7; color: #67676c; }
+    a, button { margin: 8px; padding: 8px 16px; border: 1px solid ${themeColor}; border-radius: 8px; background: none; color: ${themeColor}; font-size: 14px; text-decoration: none; cursor: pointer; }
+    @media (prefers-color-scheme: dark) { body { background: #1b1b1f; color: #dfdfd6; } p { color: #98989f; } }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>当前处于离线状态</h1>
+    <p>这个页面还没有缓存。访问过的文章和下载的专题可以离线阅读，连接网络后重试即可打开本页。</p>
+    <button type="button" onclick="location.reload()">重试</button>
+    <a href="${base}">返回首页</a>
+  </main>
+</body>
+</html>
+`;
+
+/**
+ * 生成Service Worker，缓存策略：
+ * - 应用外壳：安装时预缓存，新版本激活后删除旧版本；其中带hash的文件放入assets缓存，
+ *   旧版本的代码在缓存淘汰前一直保留，离线打开旧版本缓存的页面时仍能加载
+ * - 页面HTML：stale-while-revalidate，访问过的文章直接使用缓存，同时在后台更新，未缓存且离线时返回离线页面
+ *   缓存的旧HTML引用的带hash文件保留在assets缓存中，部署后首次打开仍能正常水合，下次打开时使用新版本
+ * - /assets/ 下带hash的文件：缓存优先，内容不会变化
+ * - 其他站内资源和CDN：stale-while-revalidate
+ * - pages、assets和static缓存超出条数限制时删除最早缓存的条目，当前版本的应用外壳不删除
+ * @param {Object} options - 生成选项
+ * @param {string} options.version - 缓存版本，应用外壳变化时改变
+ * @param {string} options.base - 站点base
+ * @param {string[]} options.precache - 预缓存的地址
+ * @param {string[]} options.cdnHosts - 需要缓存的CDN域名
+ * @returns {string} Service Worker脚本
+ */
+const renderServiceWorker = ({ version, base, precache, cdnHosts }: {
+  version: string
+  base: string
+  precache: string[]
+  cdnHosts: string[]
+}) => `// 由 utils/pwa.ts 在构建时生成
+const SHELL_CACHE = 'shell-${version}'
+const PAGE_CACHE = 'pages'
+const ASSET_CACHE = 'assets'
+const STATIC_CACHE = 'static'
+const CACHE_LIMITS = ${JSON.stringify(CACHE_LIMITS)}
+const BASE = ${JSON.stringify(base)}
+const OFFLINE_URL = BASE + 'offline.html'
+const PRECACHE = ${JSON.stringify(precache)}
+const PRECACHE_ASSETS = PRECACHE.filter((url) => url.startsWith(BASE + 'assets/'))
+const CDN_HOSTS = ${JSON.stringify(cdnHosts)}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE.filter((url) => !PRECACHE_ASSETS.includes(url)))),
+      caches.open(ASSET_CACHE).then((cache) => cache.addAll(PRECACHE_ASSETS))
+    ]).then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith('shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// /react/hooks、/react/hooks.html 使用同一份缓存
+const pageKey = (url) => url.origin + url.pathname.replace(/\\.html$/, '').replace(/\\/index$/, '/')
+
+// 超出条数限制时按写入顺序删除最早的条目，当前版本预缓存的文件保留
+const trimCache = async (cacheName) => {
+  const cache = await caches.open(cacheName)
+  const keys = (await cache.keys()).filter((request) => !PRECACHE_ASSETS.includes(new URL(request.url).pathname))
+  const excess = keys.length - CACHE_LIMITS[cacheName]
+  if (excess > 0) await Promise.all(keys.slice(0, excess).map((request) => cache.delete(request)))
+}
+
+const put = async (event, cacheName, key, response) => {
+  await (await caches.open(cacheName)).put(key, response)
+  if (cacheName in CACHE_LIMITS) event.waitUntil(trimCache(cacheName))
+}
+
+const staleWhileRevalidate = async (event, cacheName, key) => {
+  const cache = await caches.open(cacheName)
+  // 优先使用后台更新过的副本，其次是预缓存的版本
+  const cached = (await cache.match(key)) || (await caches.match(key))
+  const network = fetch(event.request).then((response) => {
+    if (response.ok || response.type === 'opaque') event.waitUntil(put(event, cacheName, key, response.clone()))
+    return response
+  })
+  if (!cached) return network
+  event.waitUntil(network.catch(() => {}))
+  return cached
+}
+
+const cacheFirst = async (event) => {
+  const cached = await caches.match(event.request)
+  if (cached) return cached
+  const response = await fetch(event.request)
+  if (response.ok) event.waitUntil(put(event, ASSET_CACHE, event.request, response.clone()))
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, STATIC_CACHE, request))
+    return
+  }
+  if (url.origin !== location.origin || !url.pathname.startsWith(BASE)) return
+
+  if (url.pathname.startsWith(BASE + 'assets/')) {
+    event.respondWith(cacheFirst(event))
+  } else if (request.mode === 'navigate' || /(\\.html|\\/|\\/[^./]+)$/.test(url.pathname)) {
+    const key = pageKey(url)
+    event.respondWith(
+      staleWhileRevalidate(event, PAGE_CACHE, key)
+        .catch(() => caches.match(OFFLINE_URL))
+    )
+  } else {
+    event.respondWith(staleWhileRevalidate(event, STATIC_CACHE, request))
+  }
+})
+`;
+
+/**
+ * head中的manifest和图标链接
+ * @param {string} base - 站点base
+ * @returns {HeadConfig[]}
+ */
+export const getPwaHead = (base = '/'): HeadConfig[] => [
+  ['link', { rel: 'manifest', href: `${base}manifest.webmanifest` }],
+  ['link', { rel: 'apple-touch-icon', href: `${base}pwa-192.png` }],
+];
+
+/**
+ * 在buildEnd中调用，生成manifest、图标、离线页面和Service Worker
+ * 页面中的注册及专题下载见 utils/offline.ts
+ * @param {SiteConfig} siteConfig - VitePress站点配置
+ * @param {PwaOptions} options - PWA配置
+ */
+export const generatePwa = async (siteConfig: SiteConfig, options: PwaOptions) => {
+  const { outDir } = siteConfig;
+  const { base } = siteConfig.site;
+
+  const manifest = {
+    name: options.name,
+    short_name: options.shortName,
+    description: options.description,
+    lang: 'zh-CN',
+    start_url: base,
+    scope: base,
+    display: 'standalone',
+    theme_color: options.themeColor,
+    background_color: options.backgroundColor ?? '#ffffff',
+    icons: ICON_SIZES.map((size) => ({ src: `${base}pwa-${size}.png`, sizes: `${size}x${size}`, type: 'image/png' }))
+  };
+  await fs.writeFile(path.join(outDir, 'manifest.webmanifest'), JSON.stringify(manifest, null, 2));
+
+  const { Resvg } = await import('@resvg/resvg-js');
+  for (const size of ICON_SIZES) {
+    const png = new Resvg(renderIconSvg(size, options.themeColor)).render().asPng();
+    await fs.writeFile(path.join(outDir, `pwa-${size}.png`), png);
+  }
+
+  await fs.writeFile(path.join(outDir, 'offline.html'), renderOfflinePage(options, base));
+
+  const files = (await fg(SHELL_PATTERNS, { cwd: outDir })).sort();
+  // 首页以base作为缓存地址，与页面请求的缓存键一致
+  const precache = files.map((file) => file === 'index.html' ? base : `${base}${file}`);
+  const version = createHash('sha1').update(files.join('\n')).digest('hex').slice(0, 8);
+  const sw = renderServiceWorker({ version, base, precache, cdnHosts: options.cdnHosts ?? [] });
+  await fs.writeFile(path.join(outDir, 'sw.js'), sw);
+
+  siteConfig.logger.info(`[pwa] service worker generated, ${precache.length} files precached`);
+};
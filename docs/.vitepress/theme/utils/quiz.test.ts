@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { createMarkdownRenderer } from 'vitepress'
+import { cardId, quizPlugin, type CardSource } from './quiz'
+
+const md = await createMarkdownRenderer(process.cwd(), { config: (md) => md.use(quizPlugin) })
+
+/**
+ * 取出组件属性中编码的值
+ * @param {string} html - 渲染结果
+ * @param {string} name - 属性名
+ * @returns {string}
+ */
+const attr = (html: string, name: string) =>
+  decodeURIComponent(html.match(new RegExp(`${name}="([^"]*)"`))![1].replace(/&amp;/g, '&'))
+
+describe('quizPlugin', () => {
+  it('选项列表转换为QuizBlock的data属性，不渲染为任务列表', () => {
+    const html = md.render('::: quiz 哪些是**副作用**？\n- [ ] 纯计算\n- [x] 发送请求\n- [X] 修改 `DOM`\n\n解析内容\n:::\n')
+    expect(html).toContain('<QuizBlock data="')
+    expect(html).not.toContain('checkbox')
+    expect(JSON.parse(attr(html, 'data'))).toEqual({
+      question: '哪些是<strong>副作用</strong>？',
+      options: [
+        { html: '纯计算', correct: false },
+        { html: '发送请求', correct: true },
+        { html: '修改 <code>DOM</code>', correct: true },
+      ]
+    })
+    expect(html).toContain('<p>解析内容</p>')
+  })
+
+  it('列表项不是选项时保留原样', () => {
+    const html = md.render('::: quiz 问题\n- 普通列表\n:::\n')
+    expect(JSON.parse(attr(html, 'data')).options).toEqual([])
+    expect(html).toContain('<li>普通列表</li>')
+  })
+
+  it('env.cards为数组时收集闪卡', () => {
+    const env = { relativePath: 'react/fiber.md', cards: [] as CardSource[] }
+    const html = md.render('::: card 什么是 *Fiber*？\n可中断的工作单元\n:::\n', env)
+    const id = cardId('react/fiber.md', '什么是 *Fiber*？')
+    expect(html).toContain(`<FlashCard card-id="${id}"`)
+    expect(html).toContain('section="react"')
+    expect(env.cards).toEqual([{ id, question: '什么是 <em>Fiber</em>？', answer: '<p>可中断的工作单元</p>\n' }])
+  })
+})
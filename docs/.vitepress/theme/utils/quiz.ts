@@ -0,0 +1,129 @@
+import { createHash } from 'crypto'
+import container from 'markdown-it-container'
+import type MarkdownIt from 'markdown-it'
+
+/** 测验中的一个选项 */
+export interface QuizOption {
+  /** 渲染后的HTML */
+  html: string
+  correct: boolean
+}
+
+/** 页面中的一张闪卡，渲染时env.cards为数组才收集，供复习页面使用（见 data/cards.data.ts） */
+export interface CardSource {
+  id: string
+  /** 渲染后的问题HTML */
+  question: string
+  /** 渲染后的答案HTML */
+  answer: string
+}
+
+/**
+ * 闪卡的id，由页面路径和问题决定，复习进度按id保存
+ * 修改问题或移动文章后视为新卡片
+ * @param {string} relativePath - 源文件路径（相对于docs目录）
+ * @param {string} question - 问题的markdown源码
+ * @returns {string}
+ */
+export const cardId = (relativePath: string, question: string) =>
+  createHash('md5').update(`${relativePath}\n${question}`).digest('hex').slice(0, 8)
+
+/**
+ * 闪卡所属的专题，即文章所在的一级目录，翻译页面对应原文的专题
+ * @param {string} relativePath - 源文件路径
+ * @returns {string} 不在专题目录中的页面返回空字符串
+ */
+const cardSection = (relativePath = '') => {
+  const parts = relativePath.replace(/^en\//, '').split('/')
+  return parts.length > 1 ? parts[0] : ''
+}
+
+/**
+ * 查找容器的结束标记
+ * @param {any[]} tokens - token列表
+ * @param {number} idx - 开始标记的位置
+ * @returns {number}
+ */
+const findClose = (tokens: any[], idx: number) => {
+  const type = tokens[idx].type.replace(/_open$/, '_close')
+  return tokens.findIndex((token, i) => i > idx && token.type === type && token.level === tokens[idx].level)
+}
+
+/**
+ * 测验和闪卡的markdown-it插件
+ *
+ * ::: quiz 问题
+ * - [ ] 错误选项
+ * - [x] 正确选项，多个正确选项时为多选题
+ *
+ * 解析（选择后显示）
+ * :::
+ *
+ * ::: card 问题
+ * 答案
+ * :::
+ *
+ * 分别由 QuizBlock 和 FlashCard 组件渲染，组件属性使用encodeURIComponent编码
+ * @param {MarkdownIt} md - markdown-it实例
+ */
+export const quizPlugin = (md: MarkdownIt) => {
+  const encode = (value: string) => md.utils.escapeHtml(encodeURIComponent(value))
+
+  // 在行内解析之前取出选项列表，避免被任务列表插件渲染为复选框
+  md.core.ruler.before('inline', 'quiz-options', (state) => {
+    const { tokens } = state
+    for (let i = 0; i < tokens.length; i++) {
+      const open = tokens[i]
+      if (open.type !== 'container_quiz_open') continue
+      const close = findClose(tokens, i)
+      const start = tokens.findIndex((token, j) => j > i && token.type === 'bullet_list_open' && token.level === open.level + 1)
+      if (start < 0 || start > close) continue
+      const end = findClose(tokens, start)
+
+      // 每个列表项的第一段是选项，必须以 [ ] 或 [x] 开头
+      const options: QuizOption[] = []
+      let pending = false
+      let valid = true
+      for (let j = start; j < end && valid; j++) {
+        const token = tokens[j]
+        if (token.type === 'list_item_open' && token.level === open.level + 2) pending = true
+        if (token.type !== 'inline' || !pending) continue
+        pending = false
+        const match = token.content.match(/^\[([ xX])\]\s+([\s\S]*)$/)
+        if (match) options.push({ html: md.renderInline(match[2], state.env), correct: match[1] !== ' ' })
+        else valid = false
+      }
+      if (!valid || !options.length) continue
+
+      open.meta = { ...open.meta, options }
+      tokens.splice(start, end - start + 1)
+    }
+  })
+
+  md.use(container, 'quiz', {
+    render(tokens: any[], idx: number, _options: any, env: any) {
+      const token = tokens[idx]
+      if (token.nesting !== 1) return '</QuizBlock>\n'
+      const question = md.renderInline(token.info.trim().slice('quiz'.length).trim(), env)
+      const data = { question, options: token.meta?.options ?? [] }
+      return `<QuizBlock data="${encode(JSON.stringify(data))}">\n`
+    }
+  })
+
+  md.use(container, 'card', {
+    render(tokens: any[], idx: number, options: any, env: any) {
+      const token = tokens[idx]
+      if (token.nesting !== 1) return '</FlashCard>\n'
+      const source = token.info.trim().slice('card'.length).trim()
+      const id = cardId(env.relativePath ?? '', source)
+      const question = md.renderInline(source, env)
+      // 复习页面的数据加载器传入env.cards时收集闪卡，正常构建页面时不重复渲染答案
+      if (Array.isArray(env.cards) && source) {
+        const answer = md.renderer.render(tokens.slice(idx + 1, findClose(tokens, idx)), options, env)
+        env.cards.push({ id, question, answer } satisfies CardSource)
+      }
+      const section = cardSection(env.relativePath)
+      return `<FlashCard card-id="${id}" question="${encode(question)}"${section ? ` section="${section}"` : ''}>\n`
+    }
+  })
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { schedule } from './review'
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+const now = Date.UTC(2024, 0, 1)
+
+describe('schedule', () => {
+  it('新卡片记住后间隔依次为1天、6天，之后乘以难度系数', () => {
+    const first = schedule(undefined, 'good', now)
+    expect(first).toEqual({ ease: 2.5, interval: 1, repetitions: 1, due: now + DAY, reviewedAt: now })
+    const second = schedule(first, 'good', now)
+    expect(second.interval).toBe(6)
+    const third = schedule(second, 'good', now)
+    expect(third.interval).toBe(15)
+    expect(third.due).toBe(now + 15 * DAY)
+  })
+
+  it('回答越轻松，难度系数越大', () => {
+    expect(schedule(undefined, 'easy', now).ease).toBeCloseTo(2.6)
+    expect(schedule(undefined, 'hard', now).ease).toBeCloseTo(2.36)
+  })
+
+  it('重来时从头开始，10分钟后再复习，难度系数不变', () => {
+    const progress = { ease: 2.2, interval: 15, repetitions: 3, due: now, reviewedAt: now - DAY }
+    expect(schedule(progress, 'again', now)).toEqual({
+      ease: 2.2, interval: 0, repetitions: 0, due: now + 10 * MINUTE, reviewedAt: now
+    })
+  })
+
+  it('难度系数不低于1.3', () => {
+    let progress = schedule(undefined, 'hard', now)
+    for (let i = 0; i < 10; i++) progress = schedule(progress, 'hard', now)
+    expect(progress.ease).toBe(1.3)
+  })
+})
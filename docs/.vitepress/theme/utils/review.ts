@@ -0,0 +1,150 @@
+import { onBeforeUnmount, onMounted, reactive } from 'vue'
+
+/** 复习时的自评：重来、困难、良好、简单 */
+export type Grade = 'again' | 'hard' | 'good' | 'easy'
+
+export const grades: Grade[] = ['again', 'hard', 'good', 'easy']
+
+/** 一张闪卡的复习进度 */
+export interface CardProgress {
+  /** 难度系数，初始为2.5，越小复习越频繁 */
+  ease: number
+  /** 当前复习间隔（天），0表示还在当天的学习中 */
+  interval: number
+  /** 连续记住的次数 */
+  repetitions: number
+  /** 下次复习时间（毫秒时间戳） */
+  due: number
+  /** 最后一次复习时间（毫秒时间戳），导入时保留较新的进度 */
+  reviewedAt: number
+}
+
+const STORAGE_KEY = 'review-progress'
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+/** 自评对应SM-2中的回答质量（0-5） */
+const quality: Record<Grade, number> = { again: 1, hard: 3, good: 4, easy: 5 }
+
+/**
+ * 按SM-2算法安排下次复习
+ * - 忘记（重来）时从头开始，10分钟后再复习，难度系数不变
+ * - 记住时间隔依次为1天、6天，之后乘以难度系数；回答越轻松，难度系数越大
+ * @param {CardProgress} progress - 当前进度，新卡片为undefined
+ * @param {Grade} grade - 自评
+ * @param {number} now - 当前时间
+ * @returns {CardProgress}
+ */
+export const schedule = (progress: CardProgress | undefined, grade: Grade, now = Date.now()): CardProgress => {
+  const q = quality[grade]
+  const { ease = 2.5, interval = 0, repetitions = 0 } = progress ?? {}
+  if (q < 3) {
+    return { ease, interval: 0, repetitions: 0, due: now + 10 * MINUTE, reviewedAt: now }
+  }
+  const next = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease)
+  return {
+    ease: Math.max(1.3, ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)),
+    interval: next,
+    repetitions: repetitions + 1,
+    due: now + next * DAY,
+    reviewedAt: now
+  }
+}
+
+/** 所有闪卡的复习进度，键为卡片id，挂载后才从localStorage读取 */
+export const reviewProgress = reactive<Record<string, CardProgress>>({})
+
+const isProgress = (value: any): value is CardProgress =>
+  !!value && ['ease', 'interval', 'repetitions', 'due', 'reviewedAt'].every((key) => Number.isFinite(value[key]))
+
+/**
+ * 解析保存的进度，忽略格式不正确的条目
+ * @param {string} json - JSON字符串
+ * @returns {Record<string, CardProgress>}
+ * @throws {SyntaxError} 不是合法的JSON时抛出
+ */
+const parse = (json: string) => {
+  const { cards } = JSON.parse(json) ?? {}
+  if (!cards || typeof cards !== 'object') throw new SyntaxError('missing cards')
+  return Object.fromEntries(Object.entries(cards).filter(([, value]) => isProgress(value))) as Record<string, CardProgress>
+}
+
+const save = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, cards: reviewProgress }))
+}
+
+const load = () => {
+  let saved: Record<string, CardProgress> = {}
+  try {
+    saved = parse(localStorage.getItem(STORAGE_KEY) ?? '{"cards":{}}')
+  } catch {
+    // 数据损坏时从头开始
+  }
+  for (const id of Object.keys(reviewProgress)) delete reviewProgress[id]
+  Object.assign(reviewProgress, saved)
+}
+
+/**
+ * 记录一次复习
+ * @param {string} id - 卡片id
+ * @param {Grade} grade - 自评
+ */
+export const gradeCard = (id: string, grade: Grade) => {
+  reviewProgress[id] = schedule(reviewProgress[id], grade)
+  save()
+}
+
+/**
+ * 清除指定卡片的进度
+ * @param {string[]} ids - 卡片id
+ */
+export const resetProgress = (ids: string[]) => {
+  for (const id of ids) delete reviewProgress[id]
+  save()
+}
+
+/**
+ * 导出所有进度为JSON文件
+ */
+export const exportProgress = () => {
+  const blob = new Blob([JSON.stringify({ version: 1, cards: reviewProgress }, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `review-progress-${new Date().toISOString().slice(0, 10)}.json`
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+/**
+ * 导入进度，同一张卡片保留最后复习时间较新的一份
+ * @param {string} json - 导出的JSON文件内容
+ * @returns {number} 导入的卡片数
+ * @throws {SyntaxError} 文件格式不正确时抛出
+ */
+export const importProgress = (json: string) => {
+  const imported = parse(json)
+  let count = 0
+  for (const [id, progress] of Object.entries(imported)) {
+    if (!reviewProgress[id] || reviewProgress[id].reviewedAt < progress.reviewedAt) {
+      reviewProgress[id] = progress
+      count++
+    }
+  }
+  save()
+  return count
+}
+
+/**
+ * 在使用复习进度的组件中调用：读取进度，其他标签页复习时同步
+ */
+export function useReviewProgress() {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) load()
+  }
+  onMounted(() => {
+    load()
+    window.addEventListener('storage', onStorage)
+  })
+  onBeforeUnmount(() => window.removeEventListener('storage', onStorage))
+}
@@ -0,0 +1,152 @@
+/** 运行过程中的一条输出 */
+export interface RunnerEvent {
+  type: 'log' | 'info' | 'warn' | 'error' | 'debug' | 'done'
+  /** 格式化后的输出内容 */
+  text?: string
+  /** 距开始运行的毫秒数，用于观察异步输出的顺序 */
+  time: number
+}
+
+/** 代码运行的最长时间，超时后强制结束 */
+const TIMEOUT = 10000
+
+/**
+ * Worker中执行的代码，通过toString注入，函数体内不能引用外部变量
+ */
+const workerMain = () => {
+  const start = performance.now()
+  const post = (type: string, text?: string) =>
+    (self as any).postMessage({ type, text, time: Math.round(performance.now() - start) })
+
+  // 将任意值格式化为可读的文本，类似浏览器控制台
+  const inspect = (value: any, depth = 0, seen = new WeakSet()): string => {
+    if (typeof value === 'string') return depth ? JSON.stringify(value) : value
+    if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`
+    if (typeof value === 'bigint') return `${value}n`
+    if (typeof value === 'symbol' || value === null || typeof value !== 'object') return String(value)
+    if (value instanceof Error) return `${value.name}: ${value.message}`
+    if (seen.has(value)) return '[Circular]'
+    if (depth > 3) return Array.isArray(value) ? '[Array]' : '[Object]'
+    seen.add(value)
+    const next = (item: any) => inspect(item, depth + 1, seen)
+    if (Array.isArray(value)) return `[ ${value.map(next).join(', ')} ]`
+    if (value instanceof Map) return `Map(${value.size}) { ${[...value].map(([k, v]) => `${next(k)} => ${next(v)}`).join(', ')} }`
+    if (value instanceof Set) return `Set(${value.size}) { ${[...value].map(next).join(', ')} }`
+    if (value instanceof Promise) return 'Promise { <pending> }'
+    if (value instanceof Date) return value.toISOString()
+    const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : ''
+    const entries = Object.keys(value).map((key) => `${key}: ${next(value[key])}`)
+    return `${name}{ ${entries.join(', ')} }`
+  }
+
+  for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    console[level] = (...args: any[]) => post(level, args.map((arg) => inspect(arg)).join(' '))
+  }
+
+  // 统计未执行的定时器，全部执行完后通知主线程结束
+  const scope = self as any
+  const timers = new Set<any>()
+  const { setTimeout: rawSetTimeout, setInterval: rawSetInterval, clearTimeout: rawClearTimeout, clearInterval: rawClearInterval } = scope
+  scope.setTimeout = (fn: any, delay?: number, ...args: any[]) => {
+    const id = rawSetTimeout(() => {
+      timers.delete(id)
+      fn(...args)
+    }, delay)
+    timers.add(id)
+    return id
+  }
+  scope.setInterval = (fn: any, delay?: number, ...args: any[]) => {
+    const id = rawSetInterval(fn, delay, ...args)
+    timers.add(id)
+    return id
+  }
+  scope.clearTimeout = (id: any) => {
+    timers.delete(id)
+    rawClearTimeout(id)
+  }
+  scope.clearInterval = (id: any) => {
+    timers.delete(id)
+    rawClearInterval(id)
+  }
+
+  // 笔记中的Node.js示例常用的API，按浏览器的事件循环近似模拟
+  scope.process = { nextTick: (fn: any, ...args: any[]) => queueMicrotask(() => fn(...args)), env: {} }
+  scope.setImmediate = (fn: any, ...args: any[]) => scope.setTimeout(fn, 0, ...args)
+
+  self.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+    event.preventDefault()
+    post('error', `Uncaught (in promise) ${inspect(event.reason)}`)
+  })
+  self.addEventListener('error', (event: ErrorEvent) => {
+    event.preventDefault()
+    post('error', `Uncaught ${event.message}`)
+  })
+
+  self.onmessage = ({ data: code }: MessageEvent<string>) => {
+    let pending = true
+    try {
+      // 异步函数包裹，支持顶层await
+      new Function(`return (async () => {\n${code}\n})()`)()
+        .catch((error: any) => post('error', `Uncaught ${inspect(error)}`))
+        .finally(() => { pending = false })
+    } catch (error) {
+      // 语法错误
+      post('error', inspect(error))
+      pending = false
+    }
+    const check = () => {
+      if (!pending && !timers.size) post('done')
+      else rawSetTimeout(check, 20)
+    }
+    rawSetTimeout(check)
+  }
+}
+
+let workerUrl: string | undefined
+
+/**
+ * 在Worker中运行代码，TypeScript先在浏览器中转换为JavaScript
+ * @param {string} code - 源代码
+ * @param {'js' | 'ts'} lang - 语言
+ * @param {(event: RunnerEvent) => void} onEvent - 接收控制台输出、错误和结束事件
+ * @returns {Promise<() => void>} 停止运行的函数，结束时总会收到done事件
+ */
+export const runCode = async (code: string, lang: 'js' | 'ts', onEvent: (event: RunnerEvent) => void) => {
+  if (lang === 'ts') {
+    try {
+      const { transform } = await import('sucrase')
+      code = transform(code, { transforms: ['typescript'], disableESTransforms: true }).code
+    } catch (error) {
+      onEvent({ type: 'error', text: `TypeScript 编译失败：${(error as Error).message}`, time: 0 })
+      onEvent({ type: 'done', time: 0 })
+      return () => { }
+    }
+  }
+
+  workerUrl ??= URL.createObjectURL(new Blob([`(${workerMain.toString()})()`], { type: 'text/javascript' }))
+  const worker = new Worker(workerUrl)
+  const start = performance.now()
+  let finished = false
+  /** 结束运行，reason为异常结束的原因 */
+  const stop = (reason?: string) => {
+    if (finished) return
+    finished = true
+    clearTimeout(timer)
+    worker.terminate()
+    const time = Math.round(performance.now() - start)
+    if (reason) onEvent({ type: 'error', text: reason, time })
+    onEvent({ type: 'done', time })
+  }
+  const timer = setTimeout(() => stop(`运行超过 ${TIMEOUT / 1000} 秒，已停止（可能存在死循环或未清除的定时器）`), TIMEOUT)
+
+  worker.onmessage = ({ data }: MessageEvent<RunnerEvent>) => {
+    if (data.type === 'done') stop()
+    else onEvent(data)
+  }
+  worker.onerror = (event) => {
+    event.preventDefault()
+    stop(event.message)
+  }
+  worker.postMessage(code)
+  return () => stop()
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { localSearch } from './search'
+
+const tokenize: (text: string) => string[] = (localSearch as any).options.miniSearch.options.tokenize
+
+describe('search tokenize', () => {
+  it('中文按词切分', () => {
+    const tokens = tokenize('虚拟DOM的差异算法')
+    expect(tokens).toContain('DOM')
+    expect(tokens).toContain('算法')
+    expect(tokens.join('')).toBe('虚拟DOM的差异算法')
+  })
+
+  it('英文和代码按单词切分，去掉标点和空白', () => {
+    expect(tokenize('useEffect(() => {}), hello world!')).toEqual(['useEffect', 'hello', 'world'])
+  })
+
+  it('不支持Intl.Segmenter时按空白和标点切分', () => {
+    const { Segmenter } = Intl
+    try {
+      delete (Intl as { Segmenter?: unknown }).Segmenter
+      expect(tokenize('事件循环, event loop')).toEqual(['事件循环', 'event', 'loop'])
+    } finally {
+      Object.assign(Intl, { Segmenter })
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import type { DefaultTheme } from 'vitepress'
+
+/**
+ * 本地离线搜索配置，本地开发、预览构建和fork仓库无需Algolia即可使用
+ * 注意：miniSearch.options中的函数会被序列化到客户端，函数体内不能引用外部变量
+ */
+export const localSearch: DefaultTheme.Config['search'] = {
+  provider: 'local',
+  options: {
+    miniSearch: {
+      options: {
+        // 中文按词切分，英文和代码按单词切分
+        tokenize: (text: string) => {
+          if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) {
+            return text.split(/[\s\p{P}\p{S}]+/u).filter(Boolean)
+          }
+          const segmenter = new Intl.Segmenter('zh-CN', { granularity: 'word' })
+          const tokens: string[] = []
+          for (const { segment, isWordLike } of segmenter.segment(text)) {
+            if (isWordLike) tokens.push(segment)
+          }
+          return tokens
+        },
+      },
+      searchOptions: {
+        // 中文词语较短，模糊匹配容易产生噪音，只对较长的词启用
+        fuzzy: (term: string) => term.length > 4 ? 0.2 : false,
+        prefix: true,
+        combineWith: 'AND',
+        boost: { title: 4, text: 2, titles: 1 },
+      },
+    },
+    // 与Algolia的中文文案保持一致
+    locales: {
+      root: {
+        translations: {
+          button: {
+            buttonText: '搜索文档',
+            buttonAriaLabel: '搜索文档'
+          },
+          modal: {
+            displayDetails: '显示详细列表',
+            resetButtonTitle: '清除查询条件',
+            backButtonTitle: '关闭搜索',
+            noResultsText: '无法找到相关结果',
+            footer: {
+              selectText: '选择',
+              navigateText: '切换',
+              closeText: '关闭'
+            }
+          }
+        },
+      },
+      en: {
+        translations: {
+          button: {
+            buttonText: 'Search',
+            buttonAriaLabel: 'Search'
+          },
+          modal: {
+            displayDetails: 'Display detailed list',
+            resetButtonTitle: 'Reset search',
+            backButtonTitle: 'Close search',
+            noResultsText: 'No results for',
+            footer: {
+              selectText: 'to select',
+              navigateText: 'to navigate',
+              closeText: 'to close'
+            }
+          }
+        },
+      },
+    },
+  },
+}
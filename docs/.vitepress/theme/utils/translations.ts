@@ -0,0 +1,131 @@
+// 导入必要的库
+import matter from 'gray-matter'; // 用于解析Markdown文件的frontmatter
+import fg from 'fast-glob';      // 快速文件系统匹配库
+import path from 'path';         // 路径处理库
+import type { DefaultTheme, SiteConfig } from 'vitepress';
+import { isVisible } from './frontmatter';
+import { extractTitleFromContent, ignoredDirs, toLink } from './permalink';
+
+/** 一篇中文页面及其翻译 */
+export interface TranslatedPage {
+  /** 中文页面标题 */
+  title: string
+  /** 中文页面链接 */
+  link: string
+  /** 翻译页面链接，未翻译时为空 */
+  translation?: string
+  /** 翻译页面的标题，用于侧边栏 */
+  translationTitle?: string
+}
+
+/** 某个语言的翻译情况 */
+export interface TranslationStatus {
+  /** 语言目录，如 en */
+  locale: string
+  /** 全部中文页面 */
+  pages: TranslatedPage[]
+}
+
+/**
+ * 读取markdown文件的标题，依次使用sidebar_label、title、一级标题和首页的hero.name
+ * @param {string} file - 文件路径
+ * @returns {string}
+ */
+const readTitle = (file: string) => {
+  const { data, content } = matter.read(file);
+  return data.sidebar_label || data.title || extractTitleFromContent(content) || data.hero?.name || path.basename(file, '.md');
+};
+
+/**
+ * 扫描中文页面，检查 docs/<locale>/ 下是否有对应的翻译
+ * 翻译与原文的路径保持一致，如 docs/vue/compiler.md 对应 docs/en/vue/compiler.md
+ * @param {Object} options - 配置选项
+ * @param {string} options.baseDir - 基础目录，默认为'docs'
+ * @param {string} options.locale - 语言目录，默认为'en'
+ * @param {Record<string, string>} options.rewrites - usePosts生成的重写规则
+ * @returns {Promise<TranslationStatus>}
+ */
+export const readTranslations = async ({
+  baseDir = 'docs',
+  locale = 'en',
+  rewrites = {} as Record<string, string>
+} = {}): Promise<TranslationStatus> => {
+  // 标签页由动态路由生成，不需要翻译
+  const sources = (await fg('**/*.md', { cwd: baseDir, ignore: ignoredDirs.map((dir) => `${dir}/**`) }))
+    .sort()
+    // 未发布的文章不需要统计翻译进度
+    .filter((relativePath) => isVisible(matter.read(path.join(baseDir, relativePath)).data));
+  const translations = new Set(await fg('**/*.md', { cwd: path.join(baseDir, locale) }));
+
+  const pages = sources.map((relativePath): TranslatedPage => {
+    const page: TranslatedPage = {
+      title: readTitle(path.join(baseDir, relativePath)),
+      link: toLink(relativePath, rewrites)
+    };
+    if (translations.has(relativePath)) {
+      page.translation = toLink(`${locale}/${relativePath}`, rewrites);
+      page.translationTitle = readTitle(path.join(baseDir, locale, relativePath));
+    }
+    return page;
+  });
+  return { locale, pages };
+};
+
+/**
+ * 根据中文侧边栏生成翻译语言的侧边栏
+ * 已翻译的文章指向翻译页面，未翻译的文章指向中文原文并标注
+ * @param {DefaultTheme.SidebarMulti} sidebar - 中文侧边栏
+ * @param {TranslationStatus} status - readTranslations的结果
+ * @param {Object} options - 配置选项
+ * @param {Record<string, string>} options.groups - 分组名称的翻译
+ * @param {string} options.untranslatedSuffix - 未翻译文章的标注
+ * @returns {DefaultTheme.SidebarMulti}
+ */
+export const localizeSidebar = (
+  sidebar: DefaultTheme.SidebarMulti,
+  status: TranslationStatus,
+  { groups = {} as Record<string, string>, untranslatedSuffix = ' (中文)' } = {}
+): DefaultTheme.SidebarMulti => {
+  const pages = new Map(status.pages.map((page) => [page.link, page]));
+  const localizeItem = (item: DefaultTheme.SidebarItem): DefaultTheme.SidebarItem => {
+    if (item.items) {
+      return { ...item, text: groups[item.text ?? ''] ?? item.text, items: item.items.map(localizeItem) };
+    }
+    const page = item.link ? pages.get(item.link) : undefined;
+    if (!page) return item;
+    return page.translation
+      ? { ...item, text: page.translationTitle, link: page.translation }
+      : { ...item, text: `${item.text}${untranslatedSuffix}` };
+  };
+
+  return Object.fromEntries(
+    Object.entries(sidebar).map(([base, items]) => [
+      `/${status.locale}${base}`,
+      Array.isArray(items) ? items.map(localizeItem) : { ...items, items: items.items.map(localizeItem) }
+    ])
+  );
+};
+
+/**
+ * 将中文链接转换为翻译页面的链接，未翻译时保持原链接
+ * @param {string} link - 中文页面链接
+ * @param {TranslationStatus} status - readTranslations的结果
+ * @returns {string}
+ */
+export const localizeLink = (link: string, status: TranslationStatus) =>
+  status.pages.find((page) => page.link === link)?.translation ?? link;
+
+/**
+ * 在构建结束时输出翻译进度，完整的未翻译列表见 /en/translations 页面
+ * @param {TranslationStatus} status - readTranslations的结果
+ * @param {SiteConfig['logger']} logger - VitePress的logger（siteConfig.logger）
+ * @param {boolean} verbose - 是否逐条列出未翻译的页面
+ */
+export const reportTranslations = (status: TranslationStatus, logger: SiteConfig['logger'], verbose = false) => {
+  const missing = status.pages.filter((page) => !page.translation);
+  logger.info(`[i18n] ${status.locale}: ${status.pages.length - missing.length}/${status.pages.length} pages translated`);
+  if (!verbose) return;
+  for (const page of missing) {
+    logger.info(`  - ${page.link}  ${page.title}`);
+  }
+};
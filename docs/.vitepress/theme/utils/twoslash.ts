@@ -0,0 +1,42 @@
+// 导入必要的库
+import fs from 'fs';             // Node.js文件系统API
+import path from 'path';         // 路径处理库
+import { createHash } from 'crypto'; // 用于生成缓存键
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { createTwoslasher, type CreateTwoslashOptions, type TwoslashExecuteOptions, type TwoslashReturn } from 'twoslash';
+
+/**
+ * 创建带磁盘缓存的twoslasher，传给 transformerTwoslash 的 twoslasher 选项
+ * 缓存键包含代码、语言、twoslasher和代码块的选项以及TypeScript版本，代码块不变时重新构建无需再次类型检查
+ * 类型检查失败时直接抛出且不写入缓存，由transformerTwoslash中断构建
+ * 升级@types等依赖后如果类型信息过期，删除缓存目录即可
+ * @param {Object} options - 配置选项，其余选项传给createTwoslasher
+ * @param {string} options.cacheDir - 缓存目录，默认为VitePress缓存目录（docs/.vitepress/cache）下的twoslash，相对于当前文件解析
+ * @returns {Function} 与twoslasher签名相同的函数
+ */
+export const createCachedTwoslasher = ({
+  cacheDir = fileURLToPath(new URL('../../cache/twoslash', import.meta.url)),
+  ...options
+}: CreateTwoslashOptions & { cacheDir?: string } = {}) => {
+  const twoslasher = createTwoslasher(options);
+  fs.mkdirSync(cacheDir, { recursive: true });
+  // TypeScript模块和虚拟文件系统不参与缓存键，函数在序列化时会被忽略
+  const optionsKey = JSON.stringify(options, (key, value) => ['tsModule', 'fsMap', 'cache'].includes(key) ? undefined : value);
+
+  return (code: string, lang?: string, executeOptions?: TwoslashExecuteOptions): TwoslashReturn => {
+    const key = createHash('sha1')
+      .update(JSON.stringify([ts.version, optionsKey, lang, executeOptions ?? {}, code]))
+      .digest('hex');
+    const file = path.join(cacheDir, `${key}.json`);
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+      // 未命中缓存
+    }
+
+    const result = twoslasher(code, lang, executeOptions);
+    fs.writeFileSync(file, JSON.stringify(result));
+    return result;
+  };
+};
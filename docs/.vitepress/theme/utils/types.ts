@@ -1,6 +1,6 @@
 /* types.ts */
 export interface NavLink {
-  /** 站点图标 */
+  /** 站点图标：public下的路径、远程地址（构建时下载到public）或SVG，未设置时使用首字母头像 */
   icon?: string | { svg: string }
   badge?:
   | string
@@ -10,13 +10,119 @@ export interface NavLink {
   }
   /** 站点名称 */
   title: string
-  /** 站点名称 */
+  /** 站点描述 */
   desc?: string
   /** 站点链接 */
   link: string
+  /** 标签，用于资源导航页的筛选 */
+  tags?: string[]
 }
 
 export interface NavData {
   title: string
   items: NavLink[]
 }
+
+export interface PostSummary {
+  /** 文章标题 */
+  title: string
+  /** 文章链接 */
+  link: string
+  /** 源文件路径（相对于docs目录） */
+  relativePath: string
+  /** 文章描述 */
+  description?: string
+  /** 发布日期（毫秒时间戳） */
+  date: number
+  /** 最后更新时间：frontmatter中的updated，未设置时使用最后一次git提交时间（毫秒时间戳） */
+  lastUpdated: number
+  /** 阅读时间（分钟） */
+  readingTime: number
+  /** 标签 */
+  tags: string[]
+  /** 分类 */
+  categories: string[]
+  /** 所属学习路线 */
+  series?: string
+  /** 在学习路线（及侧边栏）中的顺序 */
+  order?: number
+}
+
+/** 学习路线：frontmatter中series相同的文章按order排列 */
+export interface LearningPath {
+  /** 路线名称 */
+  name: string
+  /** 所在顶级目录，如 typescript */
+  section: string
+  posts: Pick<PostSummary, 'title' | 'link'>[]
+}
+
+/** 一次提交对文章的改动 */
+export interface PostChange {
+  /** 新增行数 */
+  additions: number
+  /** 删除行数 */
+  deletions: number
+  /** 改动所在的小节（二、三级标题） */
+  sections: string[]
+}
+
+/** 内容索引中的一篇文章 */
+export interface ContentEntry {
+  title: string
+  link: string
+  /** 所在顶级目录，如 typescript */
+  section: string
+  /** 创建时间：frontmatter中的date，未设置时使用第一次git提交时间 */
+  created: number
+  /** 最后更新时间：frontmatter中的updated，未设置时使用最后一次git提交时间 */
+  lastUpdated: number
+  /** 最后一次提交的改动 */
+  change?: PostChange
+}
+
+/** Mermaid内置主题 */
+export type MermaidTheme = 'default' | 'neutral' | 'dark' | 'forest' | 'base'
+
+/**
+ * 文章的frontmatter，构建时由 utils/frontmatter.ts 校验
+ * 日期可以写成 2024-01-01 或完整的时间，YAML解析后可能是字符串或Date
+ */
+export interface PostFrontmatter {
+  /** 标题，未设置时使用一级标题 */
+  title?: string
+  /** 描述，用于搜索引擎、订阅源和封面图 */
+  description?: string
+  /** 发布日期，未设置时使用git提交时间 */
+  date?: string | Date
+  /** 最后更新日期，优先于git提交时间 */
+  updated?: string | Date
+  /** 标签 */
+  tags?: string | string[]
+  /** 分类，未设置时使用所在的顶级目录 */
+  categories?: string | string[]
+  /** 草稿，只在开发环境中显示 */
+  draft?: boolean
+  /** 定时发布，此时间之后的构建才包含该文章 */
+  publishAt?: string | Date
+  /** 封面图，站内绝对路径或完整URL */
+  cover?: string
+  /** 设置为false关闭评论 */
+  comments?: boolean
+  /** 永久链接，以/开头 */
+  permalink?: string
+  /** 所属学习路线 */
+  series?: string
+  /** 在学习路线及侧边栏中的顺序 */
+  order?: number
+  /** 设置为false不在侧边栏中显示 */
+  sidebar?: boolean
+  /** 侧边栏显示文本 */
+  sidebar_label?: string
+  /** 侧边栏分组 */
+  sidebar_group?: string
+  /** 浅色模式下Mermaid图表的主题 */
+  mermaidTheme?: MermaidTheme
+  /** 添加到布局根元素上的class */
+  layoutClass?: string
+}
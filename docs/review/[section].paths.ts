@@ -0,0 +1,24 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { extractTitleFromContent, readPosts, usePosts } from '../.vitepress/theme/utils/permalink'
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('..', import.meta.url)))
+
+// 为包含闪卡的专题生成 /review/<section> 复习页面，name为专题首页的一级标题
+export default {
+  async paths() {
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+    const sections = new Set<string>()
+    for (const post of posts) {
+      const src = await fs.readFile(path.join(srcDir, post.relativePath), 'utf8')
+      if (/^:{3,}\s*card\b/m.test(src)) sections.add(post.relativePath.split('/')[0])
+    }
+    return Promise.all([...sections].sort().map(async (section) => {
+      const index = await fs.readFile(path.join(srcDir, section, 'index.md'), 'utf8').catch(() => '')
+      return { params: { section, name: extractTitleFromContent(index) || section } }
+    }))
+  }
+}
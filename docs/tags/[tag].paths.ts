@@ -0,0 +1,17 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { readPosts, usePosts } from '../.vitepress/theme/utils/permalink'
+
+// docs目录，相对于当前文件解析，不依赖构建时的工作目录
+const srcDir = path.resolve(fileURLToPath(new URL('..', import.meta.url)))
+
+// 为每个标签生成 /tags/<tag> 页面
+// 文件名保留原始标签，链接中用encodeURIComponent编码（见 TagCloud.vue），客户端路由解码后对应到这里的文件
+export default {
+  async paths() {
+    const { rewrites } = await usePosts({ baseDir: srcDir })
+    const posts = await readPosts({ baseDir: srcDir, rewrites })
+    const tags = new Set(posts.flatMap((post) => post.tags))
+    return [...tags].sort().map((tag) => ({ params: { tag } }))
+  }
+}
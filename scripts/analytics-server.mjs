@@ -0,0 +1,118 @@
+// 访问统计参考服务，默认数据保存在内存中；设置 ANALYTICS_DB 时使用内置的 node:sqlite 持久化，
+// 需要Node 22.13+（22.5~22.12 需加 --experimental-sqlite 参数），更低版本只能使用内存存储
+// 用法：
+//   pnpm analytics:serve
+//   VITE_ANALYTICS_PROVIDER=server VITE_ANALYTICS_ENDPOINT=http://localhost:8788 pnpm docs:dev
+// 接口：
+//   POST /track  { path, title, visitor }  => { views }
+//   GET  /top?limit=5                      => { items: [{ path, title, views }] }
+//   GET  /site                             => { pv, uv }
+import { createServer } from 'node:http'
+
+const port = Number(process.env.PORT) || 8788
+
+/**
+ * 内存存储
+ */
+const memoryStore = () => {
+  /** @type {Map<string, { title: string, views: number }>} */
+  const pages = new Map()
+  const visitors = new Set()
+  return {
+    track({ path, title, visitor }) {
+      const page = pages.get(path) ?? { title, views: 0 }
+      page.title = title || page.title
+      page.views++
+      pages.set(path, page)
+      if (visitor) visitors.add(visitor)
+      return page.views
+    },
+    top(limit) {
+      return [...pages.entries()]
+        .map(([path, { title, views }]) => ({ path, title, views }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, limit)
+    },
+    site() {
+      let pv = 0
+      for (const { views } of pages.values()) pv += views
+      return { pv, uv: visitors.size }
+    },
+  }
+}
+
+/**
+ * SQLite存储
+ * @param {string} file - 数据库文件
+ */
+const sqliteStore = async (file) => {
+  const { DatabaseSync } = await import('node:sqlite').catch(() => {
+    console.error(
+      `[analytics] ANALYTICS_DB requires node:sqlite (Node 22.13+, or 22.5+ with --experimental-sqlite), current Node is ${process.version}.\n` +
+      '[analytics] Upgrade Node or unset ANALYTICS_DB to keep the data in memory.'
+    )
+    process.exit(1)
+  })
+  const db = new DatabaseSync(file)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pages (path TEXT PRIMARY KEY, title TEXT, views INTEGER NOT NULL DEFAULT 0);
+    CREATE TABLE IF NOT EXISTS visitors (id TEXT PRIMARY KEY);
+  `)
+  const upsert = db.prepare(`
+    INSERT INTO pages (path, title, views) VALUES (?, ?, 1)
+    ON CONFLICT(path) DO UPDATE SET views = views + 1, title = COALESCE(NULLIF(excluded.title, ''), title)
+  `)
+  const views = db.prepare('SELECT views FROM pages WHERE path = ?')
+  const addVisitor = db.prepare('INSERT OR IGNORE INTO visitors (id) VALUES (?)')
+  const top = db.prepare('SELECT path, title, views FROM pages ORDER BY views DESC LIMIT ?')
+  const pv = db.prepare('SELECT COALESCE(SUM(views), 0) AS pv FROM pages')
+  const uv = db.prepare('SELECT COUNT(*) AS uv FROM visitors')
+  return {
+    track({ path, title, visitor }) {
+      upsert.run(path, title ?? '')
+      if (visitor) addVisitor.run(visitor)
+      return views.get(path).views
+    },
+    top: (limit) => top.all(limit),
+    site: () => ({ pv: pv.get().pv, uv: uv.get().uv }),
+  }
+}
+
+const store = process.env.ANALYTICS_DB ? await sqliteStore(process.env.ANALYTICS_DB) : memoryStore()
+
+/**
+ * 返回JSON响应
+ */
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+  if (req.method === 'OPTIONS') return res.writeHead(204).end()
+
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`)
+  if (req.method === 'POST' && url.pathname === '/track') {
+    let body = ''
+    for await (const chunk of req) body += chunk
+    try {
+      const { path, title, visitor } = JSON.parse(body || '{}')
+      if (typeof path !== 'string' || !path.startsWith('/')) return send(res, 400, { message: 'Invalid path' })
+      return send(res, 200, { views: store.track({ path, title, visitor }) })
+    } catch {
+      return send(res, 400, { message: 'Invalid JSON' })
+    }
+  }
+  if (req.method === 'GET' && url.pathname === '/top') {
+    const limit = Math.min(Number(url.searchParams.get('limit')) || 5, 50)
+    return send(res, 200, { items: store.top(limit) })
+  }
+  if (req.method === 'GET' && url.pathname === '/site') {
+    return send(res, 200, store.site())
+  }
+  send(res, 404, { message: 'Not found' })
+}).listen(port, () => {
+  console.log(`Analytics server running at http://localhost:${port}${process.env.ANALYTICS_DB ? ` (SQLite: ${process.env.ANALYTICS_DB})` : ''}`)
+})
@@ -0,0 +1,22 @@
+// 将侧边栏分组导出为电子书，先完整构建站点，再在buildEnd中生成 dist/books/ 下的HTML、PDF和EPUB
+// 用法：
+//   pnpm docs:book "React 源码与原理"
+//   pnpm docs:book /node/ "Vue 源码原理"
+// 参数为侧边栏分组名称，或侧边栏路径（导出整个专题），实现见 docs/.vitepress/theme/utils/book.ts
+// PDF和Mermaid图表由puppeteer生成，安装依赖时puppeteer会下载Chrome（pnpm 10需要 package.json 中的
+// pnpm.onlyBuiltDependencies 允许它执行安装脚本）；下载被跳过时运行 pnpm exec puppeteer browsers install chrome
+import { spawnSync } from 'node:child_process'
+
+const sections = process.argv.slice(2)
+if (!sections.length) {
+  console.error('用法: pnpm docs:book <侧边栏分组名称或路径>...')
+  process.exit(1)
+}
+
+const { status } = spawnSync('vitepress', ['build', 'docs'], {
+  stdio: 'inherit',
+  // 在Windows上需要通过shell找到 node_modules/.bin 中的命令
+  shell: true,
+  env: { ...process.env, BOOK: sections.join(',') }
+})
+process.exit(status ?? 1)
@@ -0,0 +1,141 @@
+// 本地Twikoo模拟服务，评论保存在内存中，无需部署Vercel即可调试评论区
+// 用法：
+//   pnpm comments:mock
+//   VITE_TWIKOO_ENV_ID=http://localhost:8787 pnpm docs:dev
+import { createServer } from 'node:http'
+import { createHash, randomUUID } from 'node:crypto'
+
+const port = Number(process.env.PORT) || 8787
+
+/** @type {Map<string, any[]>} 页面路径与评论列表 */
+const comments = new Map()
+/** @type {Map<string, number>} 页面访问量 */
+const counters = new Map()
+
+const md5 = (value) => createHash('md5').update(value).digest('hex')
+
+/**
+ * 转义评论内容，按段落包裹，与Twikoo返回的HTML结构一致
+ * @param {string} text - 评论原文
+ * @returns {string} HTML
+ */
+const toHtml = (text) => text
+  .replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+  .split(/\n{2,}/)
+  .map((paragraph) => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+  .join('')
+
+/**
+ * 转换为客户端需要的评论结构
+ */
+const toClient = (comment, all) => ({
+  id: comment.id,
+  nick: comment.nick || '匿名',
+  avatar: `https://cravatar.cn/avatar/${comment.mailMd5}?d=identicon`,
+  mailMd5: comment.mailMd5,
+  link: comment.link,
+  comment: comment.comment,
+  os: '',
+  browser: '',
+  master: false,
+  like: comment.like.length,
+  liked: false,
+  replies: all.filter((item) => item.rid === comment.id).map((item) => toClient(item, [])),
+  rid: comment.rid,
+  pid: comment.pid,
+  ruser: all.find((item) => item.id === comment.pid)?.nick,
+  top: false,
+  isSpam: false,
+  created: comment.created,
+  updated: comment.created,
+})
+
+/** 各事件的处理函数，参数为请求体 */
+const handlers = {
+  GET_FUNC_VERSION: () => ({ code: 0, version: '1.6.44' }),
+  GET_PASSWORD_STATUS: () => ({ code: 0, status: true }),
+  GET_CONFIG: () => ({
+    code: 0,
+    config: {
+      SITE_NAME: "Jensen's Blog",
+      COMMENT_PAGE_SIZE: '8',
+      SHOW_IMAGE: 'false',
+      SHOW_EMOTION: 'false',
+      IS_ADMIN: false,
+    },
+  }),
+  COMMENT_GET: ({ url, before }) => {
+    const all = comments.get(url) ?? []
+    const roots = all.filter((item) => !item.rid && (!before || item.created < before))
+    const page = roots.sort((a, b) => b.created - a.created).slice(0, 8)
+    return { code: 0, data: page.map((item) => toClient(item, all)), more: roots.length > page.length, count: all.length }
+  },
+  COMMENT_SUBMIT: ({ url, nick, mail, link, comment, pid, rid }) => {
+    if (!comment?.trim()) return { code: 1, message: '评论内容不能为空' }
+    const item = {
+      id: randomUUID(),
+      nick,
+      mailMd5: md5((mail || '').trim().toLowerCase()),
+      link,
+      comment: toHtml(comment),
+      pid,
+      rid,
+      like: [],
+      created: Date.now(),
+    }
+    comments.set(url, [...(comments.get(url) ?? []), item])
+    console.log(`[comment] ${url} ${nick || '匿名'}: ${comment}`)
+    return { code: 0, id: item.id }
+  },
+  COMMENT_LIKE: ({ id, accessToken }) => {
+    for (const item of [...comments.values()].flat()) {
+      if (item.id !== id) continue
+      item.like = item.like.includes(accessToken)
+        ? item.like.filter((token) => token !== accessToken)
+        : [...item.like, accessToken]
+    }
+    return { code: 0 }
+  },
+  COUNTER_GET: ({ url }) => {
+    counters.set(url, (counters.get(url) ?? 0) + 1)
+    return { code: 0, time: counters.get(url) }
+  },
+  GET_COMMENTS_COUNT: ({ urls = [], includeReply }) => ({
+    code: 0,
+    data: urls.map((url) => ({
+      url,
+      count: (comments.get(url) ?? []).filter((item) => includeReply || !item.rid).length,
+    })),
+  }),
+  GET_RECENT_COMMENTS: ({ pageSize = 10 }) => ({
+    code: 0,
+    data: [...comments.entries()]
+      .flatMap(([url, list]) => list.map((item) => ({ ...toClient(item, []), url, commentText: item.comment.replace(/<[^>]+>/g, '') })))
+      .sort((a, b) => b.created - a.created)
+      .slice(0, pageSize),
+  }),
+}
+
+createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+  if (req.method === 'OPTIONS') return res.writeHead(204).end()
+  if (req.method !== 'POST') return res.writeHead(200, { 'Content-Type': 'text/plain' }).end('Twikoo mock server')
+
+  let body = ''
+  for await (const chunk of req) body += chunk
+  let request
+  try {
+    request = JSON.parse(body || '{}')
+  } catch {
+    return res.writeHead(400).end()
+  }
+  // 每个访客分配一个固定的accessToken，客户端会保存在localStorage中
+  request.accessToken ||= randomUUID()
+  const handler = handlers[request.event]
+  const result = handler ? handler(request) : { code: 1, message: `Unsupported event: ${request.event}` }
+  res.writeHead(200, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ ...result, accessToken: request.accessToken }))
+}).listen(port, () => {
+  console.log(`Twikoo mock server running at http://localhost:${port}`)
+})